@@ -0,0 +1,117 @@
+/**
+ * Admin controller - manages the token registry
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { tokenRegistry } from '../lib/tokenRegistry.js';
+import { cacheService } from '../lib/cacheService.js';
+import { tokenAggregationService } from '../lib/tokenAggregation.js';
+import { webSocketService } from '../lib/websocketService.js';
+import { successResponse } from '../lib/responseUtils.js';
+import { getTokenKey } from '../lib/addressValidation.js';
+import { RegistryChangeAction, RegistryToken, RegistryTokenInput } from '../types/token.js';
+
+class AdminController {
+  /**
+   * List registry entries, including disabled ones
+   * Query: enabled (true|false), tag
+   */
+  async listTokens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const enabled = req.query.enabled as string | undefined;
+      const tag = req.query.tag as string | undefined;
+
+      const tokens = tokenRegistry.listEntries().filter(token =>
+        (enabled === undefined || token.enabled === (enabled === 'true')) &&
+        (!tag || token.tags.includes(tag))
+      );
+
+      return successResponse(
+        res,
+        {
+          count: tokens.length,
+          persisted: tokenRegistry.isAvailable(),
+          tokens,
+          loadErrors: tokenRegistry.getLoadErrors(),
+        },
+        'Registry tokens retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Register a token
+   * Body: address, name, symbol, chain, tags, enabled, pinnedDexId, pinnedPairAddress, anomalyZThreshold
+   */
+  async createToken(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const token = await tokenRegistry.create((req.body || {}) as RegistryTokenInput);
+      await this.applyChange('added', token);
+      return successResponse(res, token, 'Token added to registry', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a registered token (null clears pins and the anomaly threshold)
+   */
+  async updateToken(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { address } = req.params;
+      const previous = tokenRegistry.getEntry(address as string);
+      const token = await tokenRegistry.update(address as string, (req.body || {}) as RegistryTokenInput);
+      // A chain change moves the token to a new cache key
+      if (previous && previous.chain !== token.chain) {
+        await cacheService.deleteToken(getTokenKey(previous.chain, previous.tokenAddress));
+      }
+      await this.applyChange('updated', token);
+      return successResponse(res, token, 'Token updated');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a token from the registry
+   */
+  async deleteToken(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { address } = req.params;
+      const token = await tokenRegistry.remove(address as string);
+      await this.applyChange('removed', token);
+      return successResponse(res, token, 'Token removed from registry');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Apply a registry change without a restart: drop the token's cached data
+   * and the aggregated list, notify WebSocket clients and fetch the changed
+   * token so it shows up immediately (the list is rebuilt from per-token caches)
+   */
+  private async applyChange(action: RegistryChangeAction, token: RegistryToken): Promise<void> {
+    await cacheService.deleteToken(getTokenKey(token.chain, token.tokenAddress));
+    await cacheService.deleteAggregatedTokens();
+
+    if (webSocketService.isInitialized()) {
+      webSocketService.broadcastRegistryChange({
+        action,
+        tokenId: token.tokenAddress,
+        token,
+        timestamp: new Date(),
+      });
+    }
+
+    if (action !== 'removed' && token.enabled) {
+      tokenAggregationService.refreshToken(`${token.chain}:${token.tokenAddress}`)
+        .then(() => cacheService.deleteAggregatedTokens())
+        .catch(error => console.error(`❌ [Admin] Failed to refresh ${token.symbol}:`, error));
+    }
+  }
+}
+
+export const adminController = new AdminController();
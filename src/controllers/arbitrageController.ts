@@ -0,0 +1,61 @@
+/**
+ * Arbitrage controller - handles API requests for cross-DEX arbitrage opportunities
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { arbitrageService } from '../lib/arbitrageService.js';
+import { successResponse, errorResponse } from '../lib/responseUtils.js';
+import { tokenRegistry } from '../lib/tokenRegistry.js';
+
+class ArbitrageController {
+  /**
+   * Parse an optional non-negative basis-point query parameter
+   */
+  private parseBps(value: unknown): number | undefined | null {
+    if (value === undefined || value === '') return undefined;
+    const bps = parseFloat(value as string);
+    return isFinite(bps) && bps >= 0 ? bps : null;
+  }
+
+  /**
+   * List current arbitrage opportunities above a net spread threshold
+   * Query: minSpreadBps (net of fees), feeBps (per leg)
+   */
+  async getOpportunities(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const thresholdBps = this.parseBps(req.query.minSpreadBps);
+      if (thresholdBps === null) {
+        return errorResponse(res, 'minSpreadBps must be a non-negative number', 400);
+      }
+
+      const feeBps = this.parseBps(req.query.feeBps);
+      if (feeBps === null) {
+        return errorResponse(res, 'feeBps must be a non-negative number', 400);
+      }
+
+      const config = arbitrageService.getConfig();
+      const opportunities = await arbitrageService.getOpportunities(tokenRegistry.getAllTokens(), {
+        ...(thresholdBps !== undefined && { thresholdBps }),
+        ...(feeBps !== undefined && { feeBps }),
+      });
+
+      return successResponse(
+        res,
+        {
+          opportunities,
+          metadata: {
+            count: opportunities.length,
+            thresholdBps: thresholdBps ?? config.thresholdBps,
+            feeBps: feeBps ?? config.feeBps,
+            minLiquidityUsd: config.minLiquidityUsd,
+          },
+        },
+        'Arbitrage opportunities retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const arbitrageController = new ArbitrageController();
@@ -0,0 +1,58 @@
+/**
+ * Event controller - handles API requests for the events log
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { eventLogService } from '../lib/eventLogService.js';
+import { successResponse, errorResponse } from '../lib/responseUtils.js';
+import { EventLogType } from '../types/token.js';
+
+const EVENT_TYPES: EventLogType[] = ['liquidity_drain', 'new_pair'];
+
+class EventController {
+  /**
+   * List logged events, newest first
+   * Query: type, tokenId, since (ISO date or epoch ms), limit (1-500)
+   */
+  async getEvents(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const type = req.query.type as string | undefined;
+      if (type && !EVENT_TYPES.includes(type as EventLogType)) {
+        return errorResponse(res, `Invalid type. Expected one of: ${EVENT_TYPES.join(', ')}`, 400);
+      }
+
+      let since: Date | undefined;
+      if (req.query.since) {
+        const value = req.query.since as string;
+        since = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+        if (isNaN(since.getTime())) {
+          return errorResponse(res, 'Invalid "since" date', 400);
+        }
+      }
+
+      const tokenId = req.query.tokenId as string | undefined;
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 100), 500);
+
+      const events = await eventLogService.getEvents({
+        limit,
+        ...(type && { type: type as EventLogType }),
+        ...(tokenId && { tokenId }),
+        ...(since && { since }),
+      });
+
+      return successResponse(
+        res,
+        {
+          count: events.length,
+          persisted: eventLogService.isAvailable(),
+          events,
+        },
+        'Events retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const eventController = new EventController();
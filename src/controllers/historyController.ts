@@ -0,0 +1,172 @@
+/**
+ * History controller - handles API requests for historical token data
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { historyService, HISTORY_INTERVALS, CANDLE_TIMEFRAMES } from '../lib/historyService.js';
+import { candleService } from '../lib/candleService.js';
+import { indicatorService } from '../lib/indicatorService.js';
+import { successResponse, errorResponse } from '../lib/responseUtils.js';
+import { tokenRegistry } from '../lib/tokenRegistry.js';
+import { HistoryInterval, CandleTimeframe } from '../types/token.js';
+
+const DEFAULT_HISTORY_RANGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+class HistoryController {
+  /**
+   * Parse a date query parameter (ISO string or epoch milliseconds)
+   */
+  private parseDate(value: unknown): Date | null {
+    if (typeof value !== 'string' || value === '') return null;
+    const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Parse from/to query parameters, defaulting to the last 24 hours
+   */
+  private parseRange(req: Request): { from: Date; to: Date } | string {
+    const to = req.query.to !== undefined ? this.parseDate(req.query.to) : new Date();
+    if (!to) return 'Invalid "to" date';
+
+    const from = req.query.from !== undefined
+      ? this.parseDate(req.query.from)
+      : new Date(to.getTime() - DEFAULT_HISTORY_RANGE_MS);
+    if (!from) return 'Invalid "from" date';
+
+    if (from > to) return '"from" must be before "to"';
+
+    return { from, to };
+  }
+
+  /**
+   * Get price/volume/liquidity/market cap history for a token
+   */
+  async getHistory(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      // Snapshots are stored under the registered chain and address, so
+      // resolve "chain:address" ids and other casings first
+      const metadata = tokenRegistry.getToken(req.params.tokenId as string);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
+      }
+      const tokenId = metadata.tokenAddress;
+
+      const interval = (req.query.interval as string) || 'raw';
+      if (!HISTORY_INTERVALS.includes(interval as HistoryInterval)) {
+        return errorResponse(res, `Invalid interval. Expected one of: ${HISTORY_INTERVALS.join(', ')}`, 400);
+      }
+
+      const range = this.parseRange(req);
+      if (typeof range === 'string') {
+        return errorResponse(res, range, 400);
+      }
+
+      if (!historyService.isAvailable()) {
+        return errorResponse(res, 'History storage is unavailable', 503);
+      }
+
+      const points = await historyService.getHistory(metadata.chain, tokenId, range.from, range.to, interval as HistoryInterval);
+
+      return successResponse(
+        res,
+        {
+          tokenId,
+          interval,
+          from: range.from,
+          to: range.to,
+          count: points.length,
+          points,
+        },
+        'Token history retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get OHLCV candles for a token's top pool
+   */
+  async getCandles(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const tokenId = req.params.tokenId as string;
+
+      if (!tokenRegistry.getToken(tokenId)) {
+        return errorResponse(res, 'Token not found', 404);
+      }
+
+      const timeframe = (req.query.timeframe as string) || '1h';
+      if (!CANDLE_TIMEFRAMES.includes(timeframe as CandleTimeframe)) {
+        return errorResponse(res, `Invalid timeframe. Expected one of: ${CANDLE_TIMEFRAMES.join(', ')}`, 400);
+      }
+
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 100), 1000);
+
+      const { source, candles } = await candleService.getCandles(tokenId, timeframe as CandleTimeframe, limit);
+
+      return successResponse(
+        res,
+        {
+          tokenId,
+          timeframe,
+          source,
+          count: candles.length,
+          candles,
+        },
+        'Token candles retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get technical indicators computed over stored snapshot candles
+   */
+  async getIndicators(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      // Indicators read the snapshots stored under the registered chain and address
+      const metadata = tokenRegistry.getToken(req.params.tokenId as string);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
+      }
+      const tokenId = metadata.tokenAddress;
+
+      const { specs, invalid } = indicatorService.parseSet((req.query.set as string) || 'sma,ema,rsi,vwap,bollinger');
+      if (invalid.length > 0 || specs.length === 0) {
+        return errorResponse(res, `Invalid indicator set: ${invalid.join(', ') || 'empty'}`, 400);
+      }
+
+      const interval = (req.query.interval as string) || '1h';
+      if (!CANDLE_TIMEFRAMES.includes(interval as CandleTimeframe)) {
+        return errorResponse(res, `Invalid interval. Expected one of: ${CANDLE_TIMEFRAMES.join(', ')}`, 400);
+      }
+
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 100), 1000);
+
+      if (!historyService.isAvailable()) {
+        return errorResponse(res, 'History storage is unavailable', 503);
+      }
+
+      const points = await indicatorService.getIndicators(metadata.chain, tokenId, specs, interval as CandleTimeframe, limit);
+
+      return successResponse(
+        res,
+        {
+          tokenId,
+          interval,
+          indicators: indicatorService.getOutputKeys(specs),
+          count: points.length,
+          latest: points[points.length - 1]?.values || null,
+          points,
+        },
+        'Token indicators retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const historyController = new HistoryController();
@@ -0,0 +1,127 @@
+/**
+ * Screen controller - saved screener presets and their results
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { screenService } from '../lib/screenService.js';
+import { tokenScreener } from '../lib/tokenScreener.js';
+import { quoteService, QUOTE_CURRENCIES } from '../lib/quoteService.js';
+import { successResponse, errorResponse } from '../lib/responseUtils.js';
+import { UnauthorizedError } from '../lib/customErrors.js';
+import { ScreenInput } from '../types/token.js';
+
+class ScreenController {
+  /**
+   * Save a screen for the calling user
+   * Body: name, and filters (token list parameters) or query (a saved query string)
+   */
+  async createScreen(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const screen = await screenService.create(this.getOwner(req), (req.body || {}) as ScreenInput);
+      return successResponse(res, screen, 'Screen saved', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the calling user's screens
+   */
+  async listScreens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const screens = screenService.listScreens(this.getOwner(req));
+      return successResponse(
+        res,
+        {
+          count: screens.length,
+          persisted: screenService.isAvailable(),
+          screens,
+        },
+        'Screens retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get one of the calling user's screens
+   */
+  async getScreen(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const screen = screenService.getOwnedScreen(this.getOwner(req), req.params.id as string);
+      return successResponse(res, screen, 'Screen retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete one of the calling user's screens
+   */
+  async deleteScreen(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const screen = await screenService.remove(this.getOwner(req), req.params.id as string);
+      return successResponse(res, screen, 'Screen deleted');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Run one of the calling user's screens through the token list pipeline
+   * Query: limit, cursor (override the screen's page), quote
+   */
+  async getResults(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const screen = screenService.getOwnedScreen(this.getOwner(req), req.params.id as string);
+
+      const quote = quoteService.parseQuoteParam(req.query.quote);
+      if (quote === null) {
+        return errorResponse(res, `Invalid quote. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`, 400);
+      }
+
+      const filters = tokenScreener.parseFilters({
+        ...screen.filters,
+        ...(req.query.limit !== undefined && { limit: req.query.limit }),
+        ...(req.query.cursor !== undefined && { cursor: req.query.cursor }),
+      });
+      const { tokens, matches } = await tokenScreener.screen(filters);
+
+      const result = tokenScreener.paginate(matches, filters.limit!, filters.cursor);
+      if (quote) {
+        result.data = quoteService.attachQuotes(result.data, quote);
+      }
+
+      const metadata = {
+        screen: { id: screen.id, name: screen.name },
+        ...tokenScreener.describeFilters(filters),
+        ...(quote && { quote }),
+        ...(filters.timePeriod === '7d' && {
+          sevenDayDataMissing: tokens
+            .filter(token => !token.d7?.available)
+            .map(token => token.tokenId),
+        }),
+        timestamp: new Date(),
+      };
+
+      return successResponse(res, { ...result, metadata }, 'Screen results retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Calling user, from the X-User-Id header (set by the auth gateway in front
+   * of the service)
+   */
+  private getOwner(req: Request): string {
+    const owner = req.get('X-User-Id')?.trim();
+    if (!owner) {
+      throw new UnauthorizedError('X-User-Id header is required');
+    }
+    return owner;
+  }
+}
+
+export const screenController = new ScreenController();
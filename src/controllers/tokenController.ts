@@ -8,268 +8,276 @@ import { cacheService } from '../lib/cacheService.js';
 import { schedulerService } from '../lib/schedulerService.js';
 import { apiClient } from '../lib/apiClients.js';
 import { successResponse, errorResponse } from '../lib/responseUtils.js';
-import { TokenData, TokenFilters, PaginatedTokenResponse } from '../types/token.js';
-import { csvParser } from '../lib/csvParser.js';
+import {
+  TokenData,
+  TokenPair,
+  TokenDiscovery,
+} from '../types/token.js';
+import { tokenRegistry } from '../lib/tokenRegistry.js';
+import { providerRegistry } from '../lib/providers/providerRegistry.js';
+import { sevenDayService } from '../lib/sevenDayService.js';
+import { sourceMerger } from '../lib/sourceMerger.js';
+import { dataQualityService } from '../lib/dataQualityService.js';
+import { pairsService } from '../lib/pairsService.js';
+import { priceImpactService } from '../lib/priceImpactService.js';
+import { profileService } from '../lib/profileService.js';
+import { tokenScreener } from '../lib/tokenScreener.js';
+import { isValidTokenId } from '../lib/addressValidation.js';
+import { quoteService, QUOTE_CURRENCIES } from '../lib/quoteService.js';
+import { tokenSearch } from '../lib/tokenSearch.js';
+import { CHAINS, getChain } from '../lib/chains.js';
+
+// Discovery reason reported for tokens in the registry (seeded from p1.csv or added by an admin)
+const REGISTRY_DISCOVERY: TokenDiscovery = {
+  source: 'registry',
+  reason: 'Registered token',
+  discoveredAt: null,
+  metrics: null,
+};
+
+const MAX_SEARCH_QUERY_LENGTH = 100;
 
 class TokenController {
   /**
-   * Apply filters to token list
+   * Get all tokens with filtering, sorting, and pagination
    */
-  private applyFilters(tokens: TokenData[], filters: TokenFilters): TokenData[] {
-    let filtered = [...tokens];
-
-    // Filter by minimum volume
-    if (filters.minVolume) {
-      const volumeKey = this.getVolumeKey(filters.timePeriod);
-      filtered = filtered.filter(token => {
-        const volume = token.volume[volumeKey] || 0;
-        return volume >= (filters.minVolume || 0);
-      });
-    }
+  async getAllTokens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      // Parse and validate query parameters
+      const filters = tokenScreener.parseFilters(req.query);
 
-    // Filter by minimum price change
-    if (filters.minPriceChange !== undefined) {
-      const priceChangeKey = this.getPriceChangeKey(filters.timePeriod);
-      filtered = filtered.filter(token => {
-        const priceChange = token.priceChange[priceChangeKey] || 0;
-        return priceChange >= (filters.minPriceChange || 0);
-      });
-    }
+      const quote = quoteService.parseQuoteParam(req.query.quote);
+      if (quote === null) {
+        return errorResponse(res, `Invalid quote. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`, 400);
+      }
 
-    // Filter by minimum market cap
-    if (filters.minMarketCap) {
-      filtered = filtered.filter(token => {
-        return (token.marketCap || 0) >= (filters.minMarketCap || 0);
-      });
-    }
+      const { tokens, matches } = await tokenScreener.screen(filters);
 
-    // Filter by minimum liquidity
-    if (filters.minLiquidity) {
-      filtered = filtered.filter(token => {
-        return (token.liquidity || 0) >= (filters.minLiquidity || 0);
-      });
-    }
+      // Paginate
+      const result = tokenScreener.paginate(matches, filters.limit!, filters.cursor);
+      if (quote) {
+        result.data = quoteService.attachQuotes(result.data, quote);
+      }
 
-    return filtered;
-  }
+      // Add metadata about filters applied
+      const metadata = {
+        ...tokenScreener.describeFilters(filters),
+        ...(quote && { quote }),
+        ...(filters.timePeriod === '7d' && {
+          sevenDayDataMissing: tokens
+            .filter(token => !token.d7?.available)
+            .map(token => token.tokenId),
+        }),
+        timestamp: new Date(),
+      };
 
-  /**
-   * Get volume key based on time period
-   */
-  private getVolumeKey(timePeriod?: '1h' | '6h' | '24h' | '7d'): 'h1' | 'h6' | 'h24' {
-    switch (timePeriod) {
-      case '1h':
-        return 'h1';
-      case '6h':
-        return 'h6';
-      case '7d':
-      case '24h':
-      default:
-        return 'h24'; // Default to 24h for 7d as well (most recent 24h data)
+      return successResponse(res, { ...result, metadata }, 'Tokens retrieved successfully');
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
-   * Get price change key based on time period
+   * Search tokens by name, symbol or address (prefix and fuzzy matching)
+   * Query: q, limit (1-50, default 10), chain, quote
    */
-  private getPriceChangeKey(timePeriod?: '1h' | '6h' | '24h' | '7d'): 'h1' | 'h6' | 'h24' {
-    switch (timePeriod) {
-      case '1h':
-        return 'h1';
-      case '6h':
-        return 'h6';
-      case '7d':
-      case '24h':
-      default:
-        return 'h24'; // Default to 24h for 7d as well
-    }
-  }
+  async searchTokens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (!query) {
+        return errorResponse(res, 'Search query (q) is required', 400);
+      }
+      if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+        return errorResponse(res, `Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`, 400);
+      }
 
-  /**
-   * Sort token list
-   */
-  private sortTokens(tokens: TokenData[], filters: TokenFilters): TokenData[] {
-    const { sortBy = 'volume', sortOrder = 'desc', timePeriod = '24h' } = filters;
-    
-    return tokens.sort((a, b) => {
-      let valueA: number;
-      let valueB: number;
-
-      switch (sortBy) {
-        case 'volume':
-          const volumeKey = this.getVolumeKey(timePeriod);
-          valueA = a.volume[volumeKey] || 0;
-          valueB = b.volume[volumeKey] || 0;
-          break;
-          
-        case 'priceChange':
-          const priceChangeKey = this.getPriceChangeKey(timePeriod);
-          valueA = a.priceChange[priceChangeKey] || 0;
-          valueB = b.priceChange[priceChangeKey] || 0;
-          break;
-          
-        case 'marketCap':
-          valueA = a.marketCap || 0;
-          valueB = b.marketCap || 0;
-          break;
-          
-        case 'fdv':
-          valueA = a.fdv || 0;
-          valueB = b.fdv || 0;
-          break;
-          
-        case 'price':
-          valueA = a.priceUsd || 0;
-          valueB = b.priceUsd || 0;
-          break;
-          
-        case 'liquidity':
-          valueA = a.liquidity || 0;
-          valueB = b.liquidity || 0;
-          break;
-          
-        case 'transactions':
-          const txKey = this.getVolumeKey(timePeriod);
-          valueA = (a.transactions[txKey]?.buys || 0) + (a.transactions[txKey]?.sells || 0);
-          valueB = (b.transactions[txKey]?.buys || 0) + (b.transactions[txKey]?.sells || 0);
-          break;
-          
-        default:
-          valueA = a.volume.h24 || 0;
-          valueB = b.volume.h24 || 0;
+      const chain = typeof req.query.chain === 'string' ? req.query.chain.trim().toLowerCase() : '';
+      if (chain && !getChain(chain)) {
+        return errorResponse(res, `Invalid chain. Expected one of: ${Object.keys(CHAINS).join(', ')}`, 400);
       }
 
-      return sortOrder === 'asc' ? valueA - valueB : valueB - valueA;
-    });
-  }
+      const quote = quoteService.parseQuoteParam(req.query.quote);
+      if (quote === null) {
+        return errorResponse(res, `Invalid quote. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`, 400);
+      }
 
-  /**
-   * Paginate token list with cursor-based pagination
-   */
-  private paginate(
-    tokens: TokenData[],
-    limit: number,
-    cursor?: string
-  ): PaginatedTokenResponse {
-    // Validate and parse cursor
-    const startIndex = cursor ? Math.max(0, parseInt(cursor, 10)) : 0;
-    
-    // Ensure limit is within reasonable bounds
-    const safeLimit = Math.min(Math.max(1, limit), 100); // Min 1, Max 100
-    
-    const endIndex = startIndex + safeLimit;
-    const paginatedTokens = tokens.slice(startIndex, endIndex);
-    const hasMore = endIndex < tokens.length;
-
-    return {
-      data: paginatedTokens,
-      pagination: {
-        total: tokens.length,
-        limit: safeLimit,
-        cursor: startIndex.toString(),
-        nextCursor: hasMore ? endIndex.toString() : null,
-        hasMore,
-      },
-    };
+      const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || 10), 50);
+
+      let tokens = dataQualityService.attachQuality(await tokenAggregationService.aggregateAllTokens());
+      if (chain) {
+        tokens = tokens.filter(token => token.chainId === chain);
+      }
+
+      const result = tokenSearch.search(tokens, query, limit);
+      const data = quote ? quoteService.attachQuotes(result.tokens, quote) : result.tokens;
+
+      return successResponse(
+        res,
+        {
+          data,
+          metadata: {
+            query,
+            total: result.total,
+            limit,
+            ...(chain && { chain }),
+            ...(quote && { quote }),
+            matches: result.matches,
+            timestamp: new Date(),
+          },
+        },
+        'Token search completed successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
   }
 
   /**
-   * Get all tokens with filtering, sorting, and pagination
+   * Get a specific token by ID
    */
-  async getAllTokens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+  async getTokenById(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      // Parse and validate query parameters
-      const filters: TokenFilters = {
-        timePeriod: this.validateTimePeriod(req.query.timePeriod as string),
-        sortBy: this.validateSortBy(req.query.sortBy as string),
-        sortOrder: (req.query.sortOrder as 'asc' | 'desc') === 'asc' ? 'asc' : 'desc',
-        limit: Math.min(Math.max(1, parseInt(req.query.limit as string) || 20), 100),
-        cursor: req.query.cursor as string,
-      };
+      const tokenId = req.params.tokenId as string;
 
-      // Parse optional filter parameters
-      if (req.query.minVolume) {
-        filters.minVolume = Math.max(0, parseFloat(req.query.minVolume as string));
+      if (!tokenId) {
+        return errorResponse(res, 'Token ID is required', 400);
       }
 
-      if (req.query.minPriceChange) {
-        filters.minPriceChange = parseFloat(req.query.minPriceChange as string);
+      if (!isValidTokenId(tokenId)) {
+        return errorResponse(res, 'Invalid token ID: expected a Solana (base58) or EVM (0x hex) address, optionally prefixed with "<chain>:"', 400);
       }
 
-      if (req.query.minMarketCap) {
-        filters.minMarketCap = Math.max(0, parseFloat(req.query.minMarketCap as string));
+      const quote = quoteService.parseQuoteParam(req.query.quote);
+      if (quote === null) {
+        return errorResponse(res, `Invalid quote. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`, 400);
       }
 
-      if (req.query.minLiquidity) {
-        filters.minLiquidity = Math.max(0, parseFloat(req.query.minLiquidity as string));
+      // Resolve to the registered address so lookups use its canonical casing
+      const metadata = tokenRegistry.getToken(tokenId);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
       }
 
-      // Get all tokens
-      const tokens = await tokenAggregationService.aggregateAllTokens();
+      let token = await tokenAggregationService.aggregateToken(metadata.tokenAddress);
 
-      // Apply filters
-      let filtered = this.applyFilters(tokens, filters);
+      if (!token) {
+        return errorResponse(res, 'Token not found', 404);
+      }
 
-      // Sort tokens
-      filtered = this.sortTokens(filtered, filters);
+      const [withQuality] = dataQualityService.attachQuality([token]);
+      token = withQuality || token;
 
-      // Paginate
-      const result = this.paginate(filtered, filters.limit!, filters.cursor);
+      if (req.query.timePeriod === '7d') {
+        const [withStats] = await sevenDayService.attachSevenDayStats([token]);
+        token = withStats || token;
+      }
 
-      // Add metadata about filters applied
-      const metadata = {
-        filtersApplied: {
-          timePeriod: filters.timePeriod,
-          sortBy: filters.sortBy,
-          sortOrder: filters.sortOrder,
-          minVolume: filters.minVolume,
-          minPriceChange: filters.minPriceChange,
-          minMarketCap: filters.minMarketCap,
-          minLiquidity: filters.minLiquidity,
-        },
-        timestamp: new Date(),
-      };
+      // Stored profile only; a miss is filled by the next aggregation fetch
+      token = { ...token, profile: await profileService.getStoredProfile(metadata) };
 
-      return successResponse(res, { ...result, metadata }, 'Tokens retrieved successfully');
+      if (quote) {
+        [token] = quoteService.attachQuotes([token], quote) as [TokenData];
+      }
+
+      return successResponse(res, token, 'Token retrieved successfully');
     } catch (error) {
       next(error);
     }
   }
 
   /**
-   * Validate time period parameter
+   * Get a token's profile (logo, decimals, supply, CoinGecko id)
    */
-  private validateTimePeriod(timePeriod?: string): '1h' | '6h' | '24h' | '7d' {
-    const valid = ['1h', '6h', '24h', '7d'];
-    return valid.includes(timePeriod || '') ? (timePeriod as '1h' | '6h' | '24h' | '7d') : '24h';
+  async getTokenProfile(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const tokenId = req.params.tokenId as string;
+
+      const metadata = tokenRegistry.getToken(tokenId);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
+      }
+
+      const profile = await profileService.getProfile(metadata);
+      if (!profile) {
+        return errorResponse(res, 'Token profile not available', 404);
+      }
+
+      return successResponse(res, profile, 'Token profile retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
   }
 
   /**
-   * Validate sort by parameter
+   * Get every DEX pair/pool a token trades in
+   * Query: sortBy=liquidity|volume, sortOrder=asc|desc, timePeriod (volume window)
    */
-  private validateSortBy(sortBy?: string): 'volume' | 'priceChange' | 'marketCap' | 'fdv' | 'transactions' | 'price' | 'liquidity' {
-    const valid = ['volume', 'priceChange', 'marketCap', 'fdv', 'transactions', 'price', 'liquidity'];
-    return valid.includes(sortBy || '') ? (sortBy as any) : 'volume';
+  async getTokenPairs(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const tokenId = req.params.tokenId as string;
+
+      const metadata = tokenRegistry.getToken(tokenId);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
+      }
+
+      const sortBy = req.query.sortBy === 'volume' ? 'volume' : 'liquidity';
+      const sortOrder = req.query.sortOrder === 'asc' ? 'asc' : 'desc';
+      const timePeriod = tokenScreener.validateTimePeriod(req.query.timePeriod as string);
+      const window = tokenScreener.getWindowKey(timePeriod === '7d' ? '24h' : timePeriod);
+
+      // Pools that do not report the volume window sort last either way
+      const getValue = (pair: TokenPair): number | null =>
+        sortBy === 'volume' ? pair.volume[window] ?? null : pair.liquidityUsd;
+
+      const pairs = [...(await pairsService.getPairs(metadata))].sort((a, b) => {
+        const aValue = getValue(a);
+        const bValue = getValue(b);
+        if (aValue === null && bValue === null) return 0;
+        if (aValue === null) return 1;
+        if (bValue === null) return -1;
+        return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
+      });
+
+      return successResponse(
+        res,
+        {
+          tokenId: metadata.tokenAddress,
+          symbol: metadata.symbol,
+          pairs,
+          metadata: { count: pairs.length, sortBy, sortOrder, window },
+        },
+        'Token pairs retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
   }
 
   /**
-   * Get a specific token by ID
+   * Estimate execution price and slippage for a buy and a sell of sizeUsd
+   * routed across the token's top pools
    */
-  async getTokenById(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+  async getPriceImpact(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const tokenId = req.params.tokenId as string;
 
-      if (!tokenId) {
-        return errorResponse(res, 'Token ID is required', 400);
+      const metadata = tokenRegistry.getToken(tokenId);
+      if (!metadata) {
+        return errorResponse(res, 'Token not found', 404);
       }
 
-      const token = await tokenAggregationService.aggregateToken(tokenId);
-
-      if (!token) {
-        return errorResponse(res, 'Token not found', 404);
+      let sizeUsd = priceImpactService.getConfig().defaultSizeUsd;
+      if (req.query.sizeUsd !== undefined) {
+        sizeUsd = parseFloat(req.query.sizeUsd as string);
+        if (!isFinite(sizeUsd) || sizeUsd <= 0) {
+          return errorResponse(res, 'sizeUsd must be a positive number', 400);
+        }
       }
 
-      return successResponse(res, token, 'Token retrieved successfully');
+      const estimate = await priceImpactService.estimateForToken(metadata, sizeUsd);
+
+      return successResponse(res, estimate, 'Price impact estimated successfully');
     } catch (error) {
       next(error);
     }
@@ -286,12 +294,21 @@ class TokenController {
         return errorResponse(res, 'Token ID is required', 400);
       }
 
-      const token = await tokenAggregationService.refreshToken(tokenId);
+      const quote = quoteService.parseQuoteParam(req.query.quote);
+      if (quote === null) {
+        return errorResponse(res, `Invalid quote. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`, 400);
+      }
+
+      let token = await tokenAggregationService.refreshToken(tokenId);
 
       if (!token) {
         return errorResponse(res, 'Token not found', 404);
       }
 
+      if (quote) {
+        [token] = quoteService.attachQuotes([token], quote) as [TokenData];
+      }
+
       return successResponse(res, token, 'Token refreshed successfully');
     } catch (error) {
       next(error);
@@ -333,6 +350,7 @@ class TokenController {
   async clearCache(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       await cacheService.clearAll();
+      profileService.clearMemory();
       return successResponse(res, null, 'Cache cleared successfully');
     } catch (error) {
       next(error);
@@ -351,6 +369,43 @@ class TokenController {
     }
   }
 
+  /**
+   * Get health and rate limit status of market data providers
+   */
+  async getProviders(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const providers = providerRegistry.getAll().map(provider => ({
+        ...provider.getHealth(),
+        rateLimit: provider.getRateLimitStatus(),
+      }));
+      return successResponse(res, providers, 'Providers retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the reference rates used by the quote parameter
+   */
+  async getQuoteRates(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      return successResponse(res, quoteService.getStatus(), 'Quote rates retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get per-field merge strategies
+   */
+  async getMergeStrategies(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      return successResponse(res, sourceMerger.getConfig(), 'Merge strategies retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get scheduler status
    */
@@ -383,10 +438,20 @@ class TokenController {
    */
   async getAvailableTokens(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const tokens = csvParser.getAllTokens();
+      const tokens = tokenRegistry.getAllTokens().map(token => ({
+        ...token,
+        discovery: token.discovery ?? REGISTRY_DISCOVERY,
+      }));
+      const discovered = tokens.filter(token => token.discovery.source !== 'registry').length;
+
       return successResponse(
         res,
-        { count: tokens.length, tokens },
+        {
+          count: tokens.length,
+          registered: tokens.length - discovered,
+          discovered,
+          tokens,
+        },
         'Available tokens retrieved successfully'
       );
     } catch (error) {
@@ -404,8 +469,9 @@ class TokenController {
       services: {
         redis: redisClient.isOpen,
         scheduler: schedulerService.isActive(),
-        csvLoaded: csvParser.isReady(),
-        tokenCount: csvParser.getTokenCount(),
+        registryLoaded: tokenRegistry.isReady(),
+        tokenCount: tokenRegistry.getTokenCount(),
+        providers: providerRegistry.getHealth(),
       },
     };
 
@@ -13,7 +13,19 @@ import { connectToRedis } from "./lib/redis.js";
 import router from "./routes/index.js";
 import { webSocketService } from "./lib/websocketService.js";
 import { schedulerService } from "./lib/schedulerService.js";
-import { csvParser } from "./lib/csvParser.js";
+import { tokenRegistry } from "./lib/tokenRegistry.js";
+import { providerRegistry } from "./lib/providers/providerRegistry.js";
+import { sourceMerger } from "./lib/sourceMerger.js";
+import { dataQualityService } from "./lib/dataQualityService.js";
+import { arbitrageService } from "./lib/arbitrageService.js";
+import { priceImpactService } from "./lib/priceImpactService.js";
+import { profileService } from "./lib/profileService.js";
+import { anomalyService } from "./lib/anomalyService.js";
+import { liquidityMonitorService } from "./lib/liquidityMonitorService.js";
+import { pairsService } from "./lib/pairsService.js";
+import { discoveryService } from "./lib/discoveryService.js";
+import { quoteService } from "./lib/quoteService.js";
+import { screenService } from "./lib/screenService.js";
 
 dotenv.config();
 
@@ -48,9 +60,53 @@ async function initializeServices() {
     await connectToRedis();
     console.log("✅ Redis connected");
 
-    // Load token data from CSV
-    await csvParser.loadTokens('p1.csv');
-    console.log("✅ Token data loaded from CSV");
+    // Load the token registry (seeded from CSV when empty)
+    await tokenRegistry.load('p1.csv');
+    console.log("✅ Token registry loaded");
+
+    // Load saved screens
+    await screenService.load();
+
+    // Configure market data providers (all registered providers by default)
+    providerRegistry.configure(process.env.MARKET_DATA_PROVIDERS);
+    sourceMerger.configure(process.env.MERGE_STRATEGIES);
+    dataQualityService.configure({
+      priceTolerancePct: parseFloat(process.env.PRICE_TOLERANCE_PCT || ''),
+      volumeTolerancePct: parseFloat(process.env.VOLUME_TOLERANCE_PCT || ''),
+      alertThreshold: parseFloat(process.env.DATA_QUALITY_THRESHOLD || ''),
+    });
+    arbitrageService.configure({
+      thresholdBps: parseFloat(process.env.ARBITRAGE_THRESHOLD_BPS || ''),
+      feeBps: parseFloat(process.env.ARBITRAGE_FEE_BPS || ''),
+      minLiquidityUsd: parseFloat(process.env.ARBITRAGE_MIN_LIQUIDITY_USD || ''),
+    });
+    priceImpactService.configure({
+      defaultSizeUsd: parseFloat(process.env.PRICE_IMPACT_SIZE_USD || ''),
+      maxPools: parseInt(process.env.PRICE_IMPACT_MAX_POOLS || ''),
+    });
+    profileService.setRefreshInterval(parseFloat(process.env.PROFILE_REFRESH_HOURS || ''));
+    anomalyService.configure({
+      zThreshold: parseFloat(process.env.ANOMALY_Z_THRESHOLD || ''),
+      baselineSize: parseInt(process.env.ANOMALY_BASELINE_SIZE || ''),
+      minSamples: parseInt(process.env.ANOMALY_MIN_SAMPLES || ''),
+      cooldownMinutes: parseFloat(process.env.ANOMALY_COOLDOWN_MINUTES || ''),
+    });
+    liquidityMonitorService.configure({
+      drainPct: parseFloat(process.env.LIQUIDITY_DRAIN_PCT || ''),
+      windowMinutes: parseFloat(process.env.LIQUIDITY_DRAIN_WINDOW_MINUTES || ''),
+      minLiquidityUsd: parseFloat(process.env.LIQUIDITY_DRAIN_MIN_USD || ''),
+      sellBuyRatio: parseFloat(process.env.SELL_PRESSURE_RATIO || ''),
+      priceDropPct: parseFloat(process.env.SELL_PRESSURE_PRICE_DROP_PCT || ''),
+    });
+    pairsService.setNewPairMaxAge(parseFloat(process.env.NEW_PAIR_MAX_AGE_HOURS || ''));
+    quoteService.configure({
+      refreshIntervalSeconds: parseFloat(process.env.QUOTE_REFRESH_SECONDS || ''),
+    });
+    if (process.env.QUOTE_RATE_PROVIDER === "static") {
+      quoteService.useStaticRates(process.env.QUOTE_STATIC_RATES || '');
+    }
+    // Load rates before serving so ?quote= works right after boot
+    await quoteService.refreshRates(true);
 
     // Initialize WebSocket service
     webSocketService.initialize(server);
@@ -60,6 +116,18 @@ async function initializeServices() {
     const updateInterval = parseInt(process.env.UPDATE_INTERVAL || '120', 10);
     schedulerService.start(updateInterval);
 
+    // Optional discovery of trending/boosted tokens
+    if (process.env.DISCOVERY_ENABLED === "true") {
+      discoveryService.configure({
+        intervalMinutes: parseFloat(process.env.DISCOVERY_INTERVAL_MINUTES || ''),
+        minLiquidityUsd: parseFloat(process.env.DISCOVERY_MIN_LIQUIDITY_USD || ''),
+        minAgeHours: parseFloat(process.env.DISCOVERY_MIN_AGE_HOURS || ''),
+        minVolumeUsd: parseFloat(process.env.DISCOVERY_MIN_VOLUME_USD || ''),
+        maxTokens: parseInt(process.env.DISCOVERY_MAX_TOKENS || ''),
+      });
+      discoveryService.start();
+    }
+
     // Start server
     server.listen(PORT, () => {
       console.log(`\n🚀 Server is running on http://localhost:${PORT}`);
@@ -80,6 +148,7 @@ async function gracefulShutdown() {
 
   // Stop scheduler
   schedulerService.stop();
+  discoveryService.stop();
   console.log("✅ Scheduler stopped");
 
   // Close WebSocket
@@ -0,0 +1,154 @@
+/**
+ * Token address validation - canonical, case-preserving addresses per chain.
+ * Solana addresses are case-sensitive base58; EVM addresses are hex and
+ * canonicalized to their EIP-55 checksum form.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
+import { DEFAULT_CHAIN, getChain } from './chains.js';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const SOLANA_ADDRESS_BYTES = 32;
+
+export type AddressValidation =
+  | { valid: true; address: string }
+  | { valid: false; error: string };
+
+/**
+ * Validate an address for a chain and return its canonical form
+ */
+export function normalizeAddress(address: string, chain: string = DEFAULT_CHAIN): AddressValidation {
+  const trimmed = address.trim();
+  if (!trimmed) {
+    return { valid: false, error: 'address is empty' };
+  }
+
+  const config = getChain(chain);
+  if (!config) {
+    return { valid: false, error: `unsupported chain "${chain}"` };
+  }
+  return config.addressFormat === 'evm' ? normalizeEvmAddress(trimmed) : normalizeSolanaAddress(trimmed);
+}
+
+/**
+ * Check whether a string is a well-formed address on any supported chain
+ */
+export function isValidAddress(address: string): boolean {
+  return normalizeSolanaAddress(address).valid || normalizeEvmAddress(address).valid;
+}
+
+/**
+ * Split a token id into chain and address. Ids are an address, optionally
+ * prefixed with a chain id ("base:0x...").
+ */
+export function parseTokenId(tokenId: string): { chain: string | null; address: string } {
+  const separator = tokenId.indexOf(':');
+  if (separator === -1) {
+    return { chain: null, address: tokenId.trim() };
+  }
+  return {
+    chain: tokenId.slice(0, separator).trim().toLowerCase(),
+    address: tokenId.slice(separator + 1).trim(),
+  };
+}
+
+/**
+ * Check whether a token id is a well-formed address (for its chain, when prefixed)
+ */
+export function isValidTokenId(tokenId: string): boolean {
+  const { chain, address } = parseTokenId(tokenId);
+  return chain ? normalizeAddress(address, chain).valid : isValidAddress(address);
+}
+
+/**
+ * Lookup key for an address. Solana addresses are case-sensitive and kept
+ * as-is; EVM addresses are case-insensitive and compared lowercased.
+ */
+export function getAddressKey(address: string): string {
+  const trimmed = address.trim();
+  return /^0x[0-9a-fA-F]{40}$/.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * Cache and lookup key for a token: chain plus address key
+ */
+export function getTokenKey(chain: string | undefined, address: string): string {
+  return `${chain || DEFAULT_CHAIN}:${getAddressKey(address)}`;
+}
+
+/**
+ * Solana: base58 that decodes to a 32-byte public key
+ */
+function normalizeSolanaAddress(address: string): AddressValidation {
+  if (address.length < 32 || address.length > 44) {
+    return { valid: false, error: `Solana address must be 32-44 characters (got ${address.length})` };
+  }
+
+  const invalidChar = [...address].find(char => !BASE58_ALPHABET.includes(char));
+  if (invalidChar) {
+    return { valid: false, error: `Solana address contains non-base58 character "${invalidChar}"` };
+  }
+
+  const bytes = decodeBase58Length(address);
+  if (bytes !== SOLANA_ADDRESS_BYTES) {
+    return { valid: false, error: `Solana address must decode to ${SOLANA_ADDRESS_BYTES} bytes (got ${bytes})` };
+  }
+
+  return { valid: true, address };
+}
+
+/**
+ * EVM: 0x + 40 hex digits. All-lowercase or all-uppercase addresses are
+ * checksummed; mixed-case addresses must already match their checksum.
+ */
+function normalizeEvmAddress(address: string): AddressValidation {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { valid: false, error: 'EVM address must be 0x followed by 40 hex characters' };
+  }
+
+  const hex = address.slice(2);
+  const checksummed = toChecksumAddress(hex);
+  const isMixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+
+  if (isMixedCase && checksummed !== address) {
+    return { valid: false, error: 'EVM address checksum mismatch' };
+  }
+
+  return { valid: true, address: checksummed };
+}
+
+/**
+ * Number of bytes a base58 string decodes to (leading '1's are zero bytes)
+ */
+function decodeBase58Length(value: string): number {
+  let num = 0n;
+  for (const char of value) {
+    num = num * 58n + BigInt(BASE58_ALPHABET.indexOf(char));
+  }
+
+  let bytes = 0;
+  while (num > 0n) {
+    num >>= 8n;
+    bytes++;
+  }
+
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return bytes + leadingZeros;
+}
+
+/**
+ * EIP-55 checksum: uppercase each hex letter whose keccak-256 nibble is >= 8
+ */
+function toChecksumAddress(hex: string): string {
+  const lower = hex.toLowerCase();
+  // Keccak-256 (the original padding used by Ethereum, not NIST SHA3-256)
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    const char = lower[i] as string;
+    result += parseInt(hash[i] as string, 16) >= 8 ? char.toUpperCase() : char;
+  }
+  return result;
+}
@@ -0,0 +1,204 @@
+/**
+ * Anomaly service - z-scores against rolling per-token baselines for volume,
+ * price, transaction count and liquidity
+ */
+
+import { AnomalyEvent, AnomalyMetric, AnomalySeverity, TimeWindow, TokenData } from '../types/token.js';
+import { tokenRegistry } from './tokenRegistry.js';
+import { getTokenKey } from './addressValidation.js';
+
+export interface AnomalyConfig {
+  zThreshold: number;
+  baselineSize: number;
+  minSamples: number;
+  cooldownMinutes: number;
+}
+
+// Windows watched for the windowed metrics
+const ANOMALY_WINDOWS: TimeWindow[] = ['m5', 'h1', 'h24'];
+
+// Severity steps as multiples of the token's z-score threshold
+const SEVERITY_MULTIPLIERS: Array<[AnomalySeverity, number]> = [
+  ['high', 2],
+  ['medium', 1.5],
+  ['low', 1],
+];
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2 };
+
+// One watched series: how to read it from a token, and whether it is scored
+// on a log scale (heavy-tailed counts) and in which directions it alerts
+interface SeriesDefinition {
+  metric: AnomalyMetric;
+  window: TimeWindow | null;
+  read: (token: TokenData, previous: TokenData | undefined) => number | null;
+  logScale: boolean;
+  upOnly: boolean;
+}
+
+const SERIES: SeriesDefinition[] = [
+  ...ANOMALY_WINDOWS.flatMap((window): SeriesDefinition[] => [
+    { metric: 'volume', window, read: t => t.volume[window] ?? null, logScale: true, upOnly: true },
+    { metric: 'price', window, read: t => t.priceChange[window] ?? null, logScale: false, upOnly: false },
+    {
+      metric: 'transactions',
+      window,
+      read: t => (t.transactions[window]?.buys || 0) + (t.transactions[window]?.sells || 0),
+      logScale: true,
+      upOnly: true,
+    },
+  ]),
+  {
+    // Percentage change since the previous update
+    metric: 'liquidity',
+    window: null,
+    read: (t, previous) => previous && previous.liquidity > 0 && t.liquidity > 0
+      ? ((t.liquidity - previous.liquidity) / previous.liquidity) * 100
+      : null,
+    logScale: false,
+    upOnly: false,
+  },
+];
+
+class AnomalyService {
+  private config: AnomalyConfig = {
+    zThreshold: 3,
+    baselineSize: 60,
+    minSamples: 10,
+    cooldownMinutes: 15,
+  };
+  // Rolling observations per token and series
+  private baselines: Map<string, number[]> = new Map();
+  // Last token data seen, to skip repeated (cached) data and compute deltas
+  private previous: Map<string, TokenData> = new Map();
+  // Last alert per token and series, for the cooldown
+  private lastAlerts: Map<string, { severity: AnomalySeverity; at: number }> = new Map();
+
+  /**
+   * Update configuration (unset values keep their defaults)
+   */
+  configure(config: Partial<AnomalyConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value) && value > 0) {
+        this.config[key as keyof AnomalyConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): AnomalyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Z-score threshold for a token (per-token override from the token list)
+   */
+  getThreshold(tokenId: string): number {
+    return tokenRegistry.getToken(tokenId)?.anomalyZThreshold ?? this.config.zThreshold;
+  }
+
+  /**
+   * Score each token's latest values against its baselines, then add them to
+   * the baselines. Data that has not changed since the last call (served
+   * from cache) is skipped so it does not flatten the baselines.
+   */
+  detect(tokens: TokenData[]): AnomalyEvent[] {
+    const events: AnomalyEvent[] = [];
+    const now = Date.now();
+
+    for (const token of tokens) {
+      const tokenKey = getTokenKey(token.chainId, token.tokenId);
+      const previous = this.previous.get(tokenKey);
+      if (previous && new Date(previous.lastUpdated).getTime() === new Date(token.lastUpdated).getTime()) {
+        continue;
+      }
+
+      const threshold = this.getThreshold(tokenKey);
+
+      for (const series of SERIES) {
+        const raw = series.read(token, previous);
+        if (raw === null || !isFinite(raw)) continue;
+
+        const key = `${tokenKey}:${series.metric}:${series.window ?? 'tick'}`;
+        const value = series.logScale ? Math.log1p(Math.max(0, raw)) : raw;
+        const history = this.baselines.get(key) || [];
+
+        const event = this.score(token, tokenKey, series, raw, value, history, threshold, now);
+        if (event) {
+          events.push(event);
+        }
+
+        history.push(value);
+        if (history.length > this.config.baselineSize) {
+          history.shift();
+        }
+        this.baselines.set(key, history);
+      }
+
+      this.previous.set(tokenKey, token);
+    }
+
+    if (events.length > 0) {
+      console.log(`🚨 [Anomaly] Detected ${events.length} anomal${events.length === 1 ? 'y' : 'ies'}`);
+    }
+    return events;
+  }
+
+  /**
+   * Score one observation; returns an event when it crosses the threshold
+   * and is not within the cooldown of an alert of the same or higher severity
+   */
+  private score(
+    token: TokenData,
+    tokenKey: string,
+    series: SeriesDefinition,
+    raw: number,
+    value: number,
+    history: number[],
+    threshold: number,
+    now: number
+  ): AnomalyEvent | null {
+    if (history.length < this.config.minSamples) return null;
+
+    const mean = history.reduce((sum, v) => sum + v, 0) / history.length;
+    const variance = history.reduce((sum, v) => sum + (v - mean) ** 2, 0) / history.length;
+    const stdDev = Math.sqrt(variance);
+    if (stdDev === 0) return null;
+
+    const zScore = (value - mean) / stdDev;
+    if (series.upOnly && zScore < 0) return null;
+
+    const severity = SEVERITY_MULTIPLIERS.find(([, multiplier]) => Math.abs(zScore) >= threshold * multiplier)?.[0];
+    if (!severity) return null;
+
+    const alertKey = `${tokenKey}:${series.metric}:${series.window ?? 'tick'}:${zScore > 0 ? 'up' : 'down'}`;
+    const lastAlert = this.lastAlerts.get(alertKey);
+    if (
+      lastAlert &&
+      now - lastAlert.at < this.config.cooldownMinutes * 60 * 1000 &&
+      SEVERITY_RANK[severity] <= SEVERITY_RANK[lastAlert.severity]
+    ) {
+      return null;
+    }
+    this.lastAlerts.set(alertKey, { severity, at: now });
+
+    return {
+      tokenId: token.tokenId,
+      symbol: token.symbol,
+      metric: series.metric,
+      window: series.window,
+      value: raw,
+      baseline: series.logScale ? Math.expm1(mean) : mean,
+      zScore,
+      direction: zScore > 0 ? 'up' : 'down',
+      severity,
+      threshold,
+      timestamp: new Date(),
+    };
+  }
+}
+
+// Singleton instance
+export const anomalyService = new AnomalyService();
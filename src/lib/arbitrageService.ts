@@ -0,0 +1,131 @@
+/**
+ * Arbitrage service - cross-DEX price spreads between a token's pairs, net of fees
+ */
+
+import { ArbitrageLeg, ArbitrageOpportunity, TokenMetadata, TokenPair } from '../types/token.js';
+import { cacheService } from './cacheService.js';
+import { getTokenKey } from './addressValidation.js';
+
+export interface ArbitrageConfig {
+  thresholdBps: number;
+  feeBps: number;
+  minLiquidityUsd: number;
+}
+
+class ArbitrageService {
+  private config: ArbitrageConfig = {
+    thresholdBps: 50,
+    feeBps: 30, // Estimated swap fee per leg
+    minLiquidityUsd: 10000,
+  };
+  // Opportunities seen on the last check, used to only announce new ones
+  private lastSeen: Set<string> = new Set();
+
+  /**
+   * Update configuration (unset values keep their defaults)
+   */
+  configure(config: Partial<ArbitrageConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value)) {
+        this.config[key as keyof ArbitrageConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): ArbitrageConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Find the widest spread between two pairs on different DEXes: buy on the
+   * cheapest pair, sell on the most expensive one. Both legs pay the fee.
+   */
+  findOpportunity(
+    metadata: TokenMetadata,
+    pairs: TokenPair[],
+    options: Partial<Pick<ArbitrageConfig, 'thresholdBps' | 'feeBps'>> = {}
+  ): ArbitrageOpportunity | null {
+    const thresholdBps = options.thresholdBps ?? this.config.thresholdBps;
+    const feeBps = 2 * (options.feeBps ?? this.config.feeBps);
+
+    const candidates = pairs.filter(pair =>
+      pair.priceUsd > 0 && pair.liquidityUsd >= this.config.minLiquidityUsd
+    );
+
+    let best: ArbitrageOpportunity | null = null;
+    for (const buy of candidates) {
+      for (const sell of candidates) {
+        if (buy.dexId === sell.dexId || sell.priceUsd <= buy.priceUsd) continue;
+
+        const spreadBps = ((sell.priceUsd - buy.priceUsd) / buy.priceUsd) * 10000;
+        if (best && spreadBps <= best.spreadBps) continue;
+
+        best = {
+          tokenId: metadata.tokenAddress,
+          symbol: metadata.symbol,
+          buy: this.toLeg(buy),
+          sell: this.toLeg(sell),
+          spreadBps,
+          feeBps,
+          netSpreadBps: spreadBps - feeBps,
+          detectedAt: new Date(),
+        };
+      }
+    }
+
+    return best && best.netSpreadBps >= thresholdBps ? best : null;
+  }
+
+  /**
+   * Find opportunities across tokens using the cached pairs from the last
+   * aggregation (no upstream requests), widest net spread first
+   */
+  async getOpportunities(
+    tokens: TokenMetadata[],
+    options: Partial<Pick<ArbitrageConfig, 'thresholdBps' | 'feeBps'>> = {}
+  ): Promise<ArbitrageOpportunity[]> {
+    const opportunities: ArbitrageOpportunity[] = [];
+
+    for (const metadata of tokens) {
+      const pairs = await cacheService.getPairs(getTokenKey(metadata.chain, metadata.tokenAddress));
+      if (!pairs) continue;
+
+      const opportunity = this.findOpportunity(metadata, pairs, options);
+      if (opportunity) {
+        opportunities.push(opportunity);
+      }
+    }
+
+    return opportunities.sort((a, b) => b.netSpreadBps - a.netSpreadBps);
+  }
+
+  /**
+   * Get opportunities that were not present on the previous check
+   */
+  async detectNew(tokens: TokenMetadata[]): Promise<ArbitrageOpportunity[]> {
+    const opportunities = await this.getOpportunities(tokens);
+    const key = (o: ArbitrageOpportunity) => `${o.tokenId}:${o.buy.pairAddress}:${o.sell.pairAddress}`;
+
+    const fresh = opportunities.filter(o => !this.lastSeen.has(key(o)));
+    this.lastSeen = new Set(opportunities.map(key));
+    return fresh;
+  }
+
+  /**
+   * Describe one side of an opportunity
+   */
+  private toLeg(pair: TokenPair): ArbitrageLeg {
+    return {
+      dexId: pair.dexId,
+      pairAddress: pair.pairAddress,
+      priceUsd: pair.priceUsd,
+      liquidityUsd: pair.liquidityUsd,
+    };
+  }
+}
+
+// Singleton instance
+export const arbitrageService = new ArbitrageService();
@@ -3,7 +3,7 @@
  */
 
 import { redisClient } from './redis.js';
-import { TokenData } from '../types/token.js';
+import { TokenData, Candle, TokenPair, TokenProfile } from '../types/token.js';
 
 class CacheService {
   private defaultTTL: number = 300; // Increased to 5 minutes for better fault tolerance
@@ -168,6 +168,107 @@ class CacheService {
     }
   }
 
+  /**
+   * Set OHLCV candles in cache
+   */
+  async setCandles(tokenId: string, timeframe: string, limit: number, candles: Candle[], ttl: number = 60): Promise<void> {
+    try {
+      const key = this.getCacheKey('candles', `${tokenId}:${timeframe}:${limit}`);
+      await redisClient.setEx(key, ttl, JSON.stringify(candles));
+      console.log(`✅ [Cache] Cached ${candles.length} ${timeframe} candle(s) for ${tokenId} (TTL: ${ttl}s)`);
+    } catch (error) {
+      console.error(`❌ [Cache] Error setting candles for token ${tokenId}:`, error);
+    }
+  }
+
+  /**
+   * Get OHLCV candles from cache
+   */
+  async getCandles(tokenId: string, timeframe: string, limit: number): Promise<Candle[] | null> {
+    try {
+      const key = this.getCacheKey('candles', `${tokenId}:${timeframe}:${limit}`);
+      const value = await redisClient.get(key);
+      if (!value) {
+        return null;
+      }
+      console.log(`✅ [Cache] Candles cache HIT for ${tokenId} (${timeframe})`);
+      return JSON.parse(value) as Candle[];
+    } catch (error) {
+      console.error(`❌ [Cache] Error getting candles for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Set a token's DEX pairs in cache
+   */
+  async setPairs(tokenId: string, pairs: TokenPair[], ttl?: number): Promise<void> {
+    try {
+      const key = this.getCacheKey('pairs', tokenId);
+      await redisClient.setEx(key, ttl || this.defaultTTL, JSON.stringify(pairs));
+    } catch (error) {
+      console.error(`❌ [Cache] Error setting pairs for token ${tokenId}:`, error);
+    }
+  }
+
+  /**
+   * Get a token's DEX pairs from cache
+   */
+  async getPairs(tokenId: string): Promise<TokenPair[] | null> {
+    try {
+      const key = this.getCacheKey('pairs', tokenId);
+      const value = await redisClient.get(key);
+      if (!value) {
+        return null;
+      }
+      console.log(`✅ [Cache] Pairs cache HIT for ${tokenId}`);
+      return JSON.parse(value) as TokenPair[];
+    } catch (error) {
+      console.error(`❌ [Cache] Error getting pairs for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Set a token's profile in cache
+   */
+  async setProfile(tokenId: string, profile: TokenProfile, ttl: number): Promise<void> {
+    try {
+      const key = this.getCacheKey('profile', tokenId);
+      await redisClient.setEx(key, ttl, JSON.stringify(profile));
+      console.log(`✅ [Cache] Profile for ${tokenId} cached (TTL: ${ttl}s)`);
+    } catch (error) {
+      console.error(`❌ [Cache] Error setting profile for token ${tokenId}:`, error);
+    }
+  }
+
+  /**
+   * Get a token's profile from cache
+   */
+  async getProfile(tokenId: string): Promise<TokenProfile | null> {
+    try {
+      const key = this.getCacheKey('profile', tokenId);
+      const value = await redisClient.get(key);
+      return value ? (JSON.parse(value) as TokenProfile) : null;
+    } catch (error) {
+      console.error(`❌ [Cache] Error getting profile for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete the aggregated tokens list so the next aggregation rebuilds it
+   */
+  async deleteAggregatedTokens(): Promise<void> {
+    try {
+      const key = this.getCacheKey('aggregated', 'all');
+      await redisClient.del(key);
+      console.log(`🗑️  [Cache] Aggregated tokens list invalidated`);
+    } catch (error) {
+      console.error('❌ [Cache] Error deleting aggregated tokens from cache:', error);
+    }
+  }
+
   /**
    * Delete token from cache
    */
@@ -206,9 +307,12 @@ class CacheService {
       console.log(`🗑️  [Cache] Clearing all cache entries...`);
       const keys = await redisClient.keys('token:*');
       const aggregatedKeys = await redisClient.keys('aggregated:*');
-      const allKeys = [...keys, ...aggregatedKeys];
+      const candleKeys = await redisClient.keys('candles:*');
+      const pairKeys = await redisClient.keys('pairs:*');
+      const profileKeys = await redisClient.keys('profile:*');
+      const allKeys = [...keys, ...aggregatedKeys, ...candleKeys, ...pairKeys, ...profileKeys];
       
-      console.log(`🔍 [Cache] Found ${keys.length} token caches and ${aggregatedKeys.length} aggregated caches`);
+      console.log(`🔍 [Cache] Found ${keys.length} token caches, ${aggregatedKeys.length} aggregated caches, ${candleKeys.length} candle caches, ${pairKeys.length} pair caches and ${profileKeys.length} profile caches`);
       
       if (allKeys.length > 0) {
         await redisClient.del(allKeys);
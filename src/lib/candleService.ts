@@ -0,0 +1,71 @@
+/**
+ * Candle service - OHLCV candles from GeckoTerminal with a snapshot fallback
+ */
+
+import { Candle, CandleTimeframe } from '../types/token.js';
+import { RequestOptions } from '../types/provider.js';
+import { geckoTerminalProvider } from './providers/geckoTerminalProvider.js';
+import { REQUEST_TIME_OPTIONS } from './providers/baseProvider.js';
+import { historyService } from './historyService.js';
+import { cacheService } from './cacheService.js';
+import { tokenRegistry } from './tokenRegistry.js';
+import { getTokenKey } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
+
+export type CandleSource = 'geckoterminal' | 'snapshots';
+
+class CandleService {
+  private readonly CANDLE_CACHE_TTL = 60; // 1 minute
+  // GeckoTerminal requests kept in reserve for the scheduler
+  private readonly UPSTREAM_RESERVE = 5;
+
+  /**
+   * Get candles for a token's top pool, falling back to stored snapshots.
+   * Upstream is skipped while GeckoTerminal is unhealthy or close to its rate
+   * limit, and by default gets a single short attempt so a request never
+   * waits on retries (background jobs can pass their own options).
+   */
+  async getCandles(
+    tokenId: string,
+    timeframe: CandleTimeframe,
+    limit: number,
+    options: RequestOptions = REQUEST_TIME_OPTIONS
+  ): Promise<{ source: CandleSource; candles: Candle[] }> {
+    // Resolve "chain:address" ids to the registered address and chain
+    const entry = tokenRegistry.getEntry(tokenId);
+    const address = entry?.tokenAddress || tokenId;
+    const chain = entry?.chain;
+    const key = getTokenKey(chain, address);
+
+    const cached = await cacheService.getCandles(key, timeframe, limit);
+    if (cached) {
+      return { source: 'geckoterminal', candles: cached };
+    }
+
+    if (geckoTerminalProvider.canServeRequest(this.UPSTREAM_RESERVE)) {
+      try {
+        const poolAddress = await geckoTerminalProvider.getTopPoolAddress(address, chain, options);
+        if (poolAddress) {
+          const candles = (await geckoTerminalProvider.fetchOhlcv(poolAddress, timeframe, limit, chain, options)).slice(-limit);
+          if (candles.length > 0) {
+            await cacheService.setCandles(key, timeframe, limit, candles, this.CANDLE_CACHE_TTL);
+            return { source: 'geckoterminal', candles };
+          }
+        }
+      } catch (error) {
+        console.error(`⚠️  [Candles] GeckoTerminal OHLCV failed for ${tokenId}, falling back to snapshots`);
+      }
+    }
+
+    if (!historyService.isAvailable()) {
+      return { source: 'snapshots', candles: [] };
+    }
+
+    console.log(`📉 [Candles] Building ${timeframe} candles for ${tokenId} from stored snapshots`);
+    const candles = await historyService.getCandles(chain || DEFAULT_CHAIN, address, timeframe, limit);
+    return { source: 'snapshots', candles };
+  }
+}
+
+// Singleton instance
+export const candleService = new CandleService();
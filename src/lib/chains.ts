@@ -0,0 +1,41 @@
+/**
+ * Supported chains and their upstream network ids
+ */
+
+export interface ChainConfig {
+  id: string;
+  name: string;
+  // Address format used by the chain's tokens
+  addressFormat: 'solana' | 'evm';
+  // Chain id in DexScreener URLs and responses
+  dexScreenerId: string;
+  // Network id in GeckoTerminal URLs
+  geckoTerminalId: string;
+}
+
+export const DEFAULT_CHAIN = 'solana';
+
+export const CHAINS: Record<string, ChainConfig> = {
+  solana: { id: 'solana', name: 'Solana', addressFormat: 'solana', dexScreenerId: 'solana', geckoTerminalId: 'solana' },
+  ethereum: { id: 'ethereum', name: 'Ethereum', addressFormat: 'evm', dexScreenerId: 'ethereum', geckoTerminalId: 'eth' },
+  base: { id: 'base', name: 'Base', addressFormat: 'evm', dexScreenerId: 'base', geckoTerminalId: 'base' },
+  bsc: { id: 'bsc', name: 'BNB Chain', addressFormat: 'evm', dexScreenerId: 'bsc', geckoTerminalId: 'bsc' },
+  arbitrum: { id: 'arbitrum', name: 'Arbitrum', addressFormat: 'evm', dexScreenerId: 'arbitrum', geckoTerminalId: 'arbitrum' },
+  polygon: { id: 'polygon', name: 'Polygon', addressFormat: 'evm', dexScreenerId: 'polygon', geckoTerminalId: 'polygon_pos' },
+  optimism: { id: 'optimism', name: 'Optimism', addressFormat: 'evm', dexScreenerId: 'optimism', geckoTerminalId: 'optimism' },
+  avalanche: { id: 'avalanche', name: 'Avalanche', addressFormat: 'evm', dexScreenerId: 'avalanche', geckoTerminalId: 'avax' },
+};
+
+/**
+ * Get a chain's configuration (undefined for unsupported chains)
+ */
+export function getChain(chain: string): ChainConfig | undefined {
+  return Object.prototype.hasOwnProperty.call(CHAINS, chain) ? CHAINS[chain] : undefined;
+}
+
+/**
+ * Get a supported chain's configuration, falling back to the default chain
+ */
+export function getChainOrDefault(chain: string | undefined): ChainConfig {
+  return (chain && getChain(chain)) || (CHAINS[DEFAULT_CHAIN] as ChainConfig);
+}
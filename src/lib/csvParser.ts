@@ -1,46 +1,95 @@
 /**
- * CSV parser utility to read token metadata from p1.csv
+ * CSV parser utility to read token metadata from p1.csv (seed import for the token registry)
  */
 
 import fs from 'fs';
 import csv from 'csv-parser';
 import path from 'path';
 import { TokenMetadata } from '../types/token.js';
+import { getTokenKey, normalizeAddress } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
 
-class CSVParser {
-  private tokens: Map<string, TokenMetadata> = new Map();
-  private isLoaded: boolean = false;
+// A row that was skipped at load time
+export interface RejectedRow {
+  line: number | null;
+  tokenAddress: string;
+  error: string;
+}
 
+export interface CsvReadResult {
+  tokens: TokenMetadata[];
+  rejected: RejectedRow[];
+}
+
+class CSVParser {
   /**
-   * Load tokens from CSV file
+   * Read tokens from a CSV file. Rows with an unsupported chain, a malformed
+   * address or a duplicate chain + address are skipped and reported with
+   * their line number.
    */
-  async loadTokens(filePath: string = 'p1.csv'): Promise<void> {
-    if (this.isLoaded) {
-      return;
-    }
-
+  async readTokens(filePath: string = 'p1.csv'): Promise<CsvReadResult> {
     return new Promise((resolve, reject) => {
       const csvPath = path.resolve(process.cwd(), filePath);
       const results: TokenMetadata[] = [];
+      const rejected: RejectedRow[] = [];
+      const seen: Set<string> = new Set();
+      // Line 1 is the header
+      let line = 1;
 
       fs.createReadStream(csvPath)
-        .pipe(csv({ separator: '\t', headers: ['name', 'symbol', 'tokenAddress'], skipLines: 1 }))
+        .pipe(csv({
+          separator: '\t',
+          headers: ['name', 'symbol', 'tokenAddress', 'pinnedDexId', 'pinnedPairAddress', 'anomalyZThreshold', 'chain'],
+          skipLines: 1,
+        }))
         .on('data', (data: any) => {
+          line++;
           const token: TokenMetadata = {
             name: data.name?.trim() || '',
             symbol: data.symbol?.trim() || '',
             tokenAddress: data.tokenAddress?.trim() || '',
+            chain: data.chain?.trim().toLowerCase() || DEFAULT_CHAIN,
           };
-          
-          if (token.tokenAddress) {
-            results.push(token);
-            this.tokens.set(token.tokenAddress.toLowerCase(), token);
+
+          // Optional pair selection pins
+          if (data.pinnedDexId?.trim()) {
+            token.pinnedDexId = data.pinnedDexId.trim();
           }
+          if (data.pinnedPairAddress?.trim()) {
+            token.pinnedPairAddress = data.pinnedPairAddress.trim();
+          }
+
+          // Optional per-token anomaly threshold
+          const anomalyZThreshold = parseFloat(data.anomalyZThreshold);
+          if (anomalyZThreshold > 0) {
+            token.anomalyZThreshold = anomalyZThreshold;
+          }
+
+          if (!token.tokenAddress) {
+            return;
+          }
+
+          const validation = normalizeAddress(token.tokenAddress, token.chain);
+          if (!validation.valid) {
+            rejected.push({ line, tokenAddress: token.tokenAddress, error: validation.error });
+            return;
+          }
+          token.tokenAddress = validation.address;
+
+          const key = getTokenKey(token.chain, token.tokenAddress);
+          if (seen.has(key)) {
+            rejected.push({ line, tokenAddress: token.tokenAddress, error: 'duplicate address' });
+            return;
+          }
+          seen.add(key);
+          results.push(token);
         })
         .on('end', () => {
-          this.isLoaded = true;
-          console.log(`✅ Loaded ${results.length} tokens from CSV`);
-          resolve();
+          for (const row of rejected) {
+            console.warn(`⚠️  Skipped CSV line ${row.line} (${row.tokenAddress}): ${row.error}`);
+          }
+          console.log(`✅ Read ${results.length} tokens from CSV (${rejected.length} rejected)`);
+          resolve({ tokens: results, rejected });
         })
         .on('error', (error: Error) => {
           console.error('❌ Error reading CSV file:', error);
@@ -48,34 +97,6 @@ class CSVParser {
         });
     });
   }
-
-  /**
-   * Get token by address
-   */
-  getToken(address: string): TokenMetadata | undefined {
-    return this.tokens.get(address.toLowerCase());
-  }
-
-  /**
-   * Get all tokens
-   */
-  getAllTokens(): TokenMetadata[] {
-    return Array.from(this.tokens.values());
-  }
-
-  /**
-   * Check if CSV is loaded
-   */
-  isReady(): boolean {
-    return this.isLoaded;
-  }
-
-  /**
-   * Get tokens count
-   */
-  getTokenCount(): number {
-    return this.tokens.size;
-  }
 }
 
 // Singleton instance
@@ -84,4 +84,13 @@ export class InternalServerError extends CustomError {
   constructor(message: string = "Internal server error") {
     super(message, 500);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Service unavailable error class
+ */
+export class ServiceUnavailableError extends CustomError {
+  constructor(message: string = "Service unavailable") {
+    super(message, 503);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Data quality service - cross-source disagreement detection and confidence scoring
+ */
+
+import { TokenData, DataQuality, DataQualityEvent, SourceDisagreement } from '../types/token.js';
+import { providerRegistry } from './providers/providerRegistry.js';
+import { getTokenKey } from './addressValidation.js';
+
+export interface DataQualityConfig {
+  priceTolerancePct: number;
+  volumeTolerancePct: number;
+  alertThreshold: number;
+}
+
+// Relative weight of each component in the confidence score
+const WEIGHTS = {
+  sources: 0.25,
+  agreement: 0.35,
+  liquidity: 0.2,
+  freshness: 0.2,
+};
+
+// Liquidity (USD) mapped onto a log scale between these bounds
+const MIN_LIQUIDITY = 1e4;
+const MAX_LIQUIDITY = 1e6;
+
+// Data younger than FRESH_MS scores 1, older than STALE_MS scores 0
+const FRESH_MS = 5 * 60 * 1000;
+const STALE_MS = 30 * 60 * 1000;
+
+class DataQualityService {
+  private config: DataQualityConfig = {
+    priceTolerancePct: 2,
+    volumeTolerancePct: 50,
+    alertThreshold: 50,
+  };
+  // Last confidence per token key (chain + address), used to detect drops below the threshold
+  private lastConfidence: Map<string, number> = new Map();
+
+  /**
+   * Update configuration (unset values keep their defaults)
+   */
+  configure(config: Partial<DataQualityConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value)) {
+        this.config[key as keyof DataQualityConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): DataQualityConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Find fields whose sources disagree beyond the configured tolerance
+   */
+  private findDisagreements(token: TokenData): SourceDisagreement[] {
+    const checks: Array<{ field: string; tolerancePct: number }> = [
+      { field: 'priceUsd', tolerancePct: this.config.priceTolerancePct },
+      { field: 'volume.h24', tolerancePct: this.config.volumeTolerancePct },
+      { field: 'volume.h1', tolerancePct: this.config.volumeTolerancePct },
+    ];
+
+    const disagreements: SourceDisagreement[] = [];
+    for (const { field, tolerancePct } of checks) {
+      const reported = token.provenance?.[field]?.reported;
+      const spreadPct = reported ? this.getSpreadPct(Object.values(reported)) : null;
+      if (reported && spreadPct !== null && spreadPct > tolerancePct) {
+        disagreements.push({ field, spreadPct, tolerancePct, reported });
+      }
+    }
+    return disagreements;
+  }
+
+  /**
+   * Spread between the highest and lowest value as a percentage of their mean
+   */
+  private getSpreadPct(values: number[]): number | null {
+    if (values.length < 2) return null;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    if (mean <= 0) return null;
+    return ((Math.max(...values) - Math.min(...values)) / mean) * 100;
+  }
+
+  /**
+   * Score how closely sources agree (0.5 when only one source can be checked)
+   */
+  private getAgreementScore(token: TokenData): number {
+    const fields: Array<[string, number]> = [
+      ['priceUsd', this.config.priceTolerancePct],
+      ['volume.h24', this.config.volumeTolerancePct],
+    ];
+
+    const scores: number[] = [];
+    for (const [field, tolerancePct] of fields) {
+      const reported = token.provenance?.[field]?.reported;
+      const spreadPct = reported ? this.getSpreadPct(Object.values(reported)) : null;
+      if (spreadPct === null) continue;
+      // Full score at zero spread, 0 at twice the tolerance
+      scores.push(Math.max(0, 1 - spreadPct / (2 * tolerancePct)));
+    }
+
+    return scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 0.5;
+  }
+
+  /**
+   * Assess a single token
+   */
+  assess(token: TokenData, now: number = Date.now()): DataQuality {
+    const enabledCount = Math.max(1, providerRegistry.getEnabled().length);
+    const sources = Math.min(1, (token.sources?.length || 0) / enabledCount);
+
+    const agreement = this.getAgreementScore(token);
+
+    const liquidity = token.liquidity > 0
+      ? Math.min(1, Math.max(0,
+          (Math.log10(token.liquidity) - Math.log10(MIN_LIQUIDITY)) /
+          (Math.log10(MAX_LIQUIDITY) - Math.log10(MIN_LIQUIDITY))))
+      : 0;
+
+    const age = now - new Date(token.lastUpdated).getTime();
+    const freshness = Math.min(1, Math.max(0, (STALE_MS - age) / (STALE_MS - FRESH_MS)));
+
+    const confidence = Math.round(100 * (
+      WEIGHTS.sources * sources +
+      WEIGHTS.agreement * agreement +
+      WEIGHTS.liquidity * liquidity +
+      WEIGHTS.freshness * freshness
+    ));
+
+    const disagreements = this.findDisagreements(token);
+
+    return {
+      confidence,
+      flagged: disagreements.length > 0,
+      disagreements,
+      components: { sources, agreement, liquidity, freshness },
+    };
+  }
+
+  /**
+   * Return copies of the tokens with `confidence` and `dataQuality` populated
+   */
+  attachQuality(tokens: TokenData[]): TokenData[] {
+    const now = Date.now();
+    return tokens.map(token => {
+      const dataQuality = this.assess(token, now);
+      return { ...token, confidence: dataQuality.confidence, dataQuality };
+    });
+  }
+
+  /**
+   * Detect tokens whose confidence dropped below the alert threshold since
+   * the last check (tokens already below it are not reported again)
+   */
+  detectDrops(tokens: TokenData[]): DataQualityEvent[] {
+    const events: DataQualityEvent[] = [];
+    const threshold = this.config.alertThreshold;
+
+    for (const token of tokens) {
+      const quality = token.dataQuality || this.assess(token);
+      const key = getTokenKey(token.chainId, token.tokenId);
+      const previous = this.lastConfidence.get(key);
+
+      if (quality.confidence < threshold && (previous === undefined || previous >= threshold)) {
+        events.push({
+          tokenId: token.tokenId,
+          symbol: token.symbol,
+          confidence: quality.confidence,
+          previousConfidence: previous ?? null,
+          threshold,
+          disagreements: quality.disagreements,
+          timestamp: new Date(),
+        });
+      }
+
+      this.lastConfidence.set(key, quality.confidence);
+    }
+
+    return events;
+  }
+}
+
+// Singleton instance
+export const dataQualityService = new DataQualityService();
@@ -0,0 +1,254 @@
+/**
+ * Discovery service - optional job that pulls trending and newly boosted
+ * Solana tokens from DexScreener and GeckoTerminal, checks them against
+ * admission rules and adds the winners to the tracked universe
+ */
+
+import { DexScreenerPair, DiscoverySource, TokenDiscovery, TokenMetadata } from '../types/token.js';
+import { dexScreenerProvider } from './providers/dexScreenerProvider.js';
+import { geckoTerminalProvider } from './providers/geckoTerminalProvider.js';
+import { getBasePairs } from './pairSelection.js';
+import { tokenRegistry } from './tokenRegistry.js';
+import { normalizeAddress } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
+import { cacheService } from './cacheService.js';
+
+export interface DiscoveryConfig {
+  intervalMinutes: number;
+  minLiquidityUsd: number;
+  minAgeHours: number;
+  minVolumeUsd: number;
+  maxTokens: number;
+}
+
+interface DiscoveryCandidate {
+  address: string;
+  source: DiscoverySource;
+  reason: string;
+}
+
+class DiscoveryService {
+  private config: DiscoveryConfig = {
+    intervalMinutes: 15,
+    minLiquidityUsd: 50000,
+    minAgeHours: 24,
+    minVolumeUsd: 100000,
+    maxTokens: 25,
+  };
+  private task: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  /**
+   * Update configuration (ignores missing or invalid values)
+   */
+  configure(config: Partial<DiscoveryConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value) && value >= 0) {
+        this.config[key as keyof DiscoveryConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): DiscoveryConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Start the discovery job on its own schedule
+   */
+  start(): void {
+    if (this.task) {
+      console.log('⚠️ [Discovery] Job is already running');
+      return;
+    }
+
+    // A timer rather than a cron step: "*/90" would only fire at minute 0 of each hour
+    const minutes = Math.max(1, Math.floor(this.config.intervalMinutes));
+    this.task = setInterval(() => {
+      this.run();
+    }, minutes * 60 * 1000);
+
+    console.log(`✅ [Discovery] Job started with ${minutes}m interval`);
+
+    // Perform initial run
+    this.run();
+  }
+
+  /**
+   * Stop the discovery job
+   */
+  stop(): void {
+    if (this.task) {
+      clearInterval(this.task);
+      this.task = null;
+      console.log('🛑 [Discovery] Job stopped');
+    }
+  }
+
+  /**
+   * Check if the discovery job is scheduled
+   */
+  isActive(): boolean {
+    return this.task !== null;
+  }
+
+  /**
+   * Run one discovery pass. Returns the tokens added to the universe.
+   */
+  async run(): Promise<TokenMetadata[]> {
+    if (this.isRunning) {
+      console.log('⚠️ [Discovery] Previous run still in progress, skipping');
+      return [];
+    }
+
+    this.isRunning = true;
+    try {
+      const discovered = tokenRegistry.listEntries().filter(token => token.discovery).length;
+      const slots = this.config.maxTokens - discovered;
+      if (slots <= 0) {
+        console.log(`ℹ️  [Discovery] Universe is full (${discovered}/${this.config.maxTokens} discovered tokens)`);
+        return [];
+      }
+
+      const candidates = (await this.fetchCandidates())
+        .filter(candidate => !tokenRegistry.getEntry(`${DEFAULT_CHAIN}:${candidate.address}`));
+      if (candidates.length === 0) {
+        console.log('ℹ️  [Discovery] No new candidates');
+        return [];
+      }
+
+      const pairs = await dexScreenerProvider.fetchMany(candidates.map(c => c.address));
+      const admitted = candidates
+        .map(candidate => this.evaluate(candidate, pairs))
+        .filter((token): token is TokenMetadata => token !== null)
+        .sort((a, b) => (b.discovery?.metrics?.volumeH24 || 0) - (a.discovery?.metrics?.volumeH24 || 0))
+        .slice(0, slots);
+
+      for (const token of admitted) {
+        tokenRegistry.addToken(token);
+        console.log(`🆕 [Discovery] Tracking ${token.symbol} (${token.tokenAddress}): ${token.discovery?.reason}`);
+      }
+
+      if (admitted.length > 0) {
+        // Make the next aggregation include the new tokens
+        await cacheService.deleteAggregatedTokens();
+      }
+
+      console.log(`✅ [Discovery] ${candidates.length} candidate(s), ${admitted.length} admitted`);
+      return admitted;
+    } catch (error) {
+      console.error('❌ [Discovery] Error during discovery run:', error);
+      return [];
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Collect Solana candidates from every source, first source wins per address
+   */
+  private async fetchCandidates(): Promise<DiscoveryCandidate[]> {
+    const candidates: Map<string, DiscoveryCandidate> = new Map();
+    const add = (candidate: DiscoveryCandidate) => {
+      if (normalizeAddress(candidate.address).valid && !candidates.has(candidate.address)) {
+        candidates.set(candidate.address, candidate);
+      }
+    };
+
+    const [topBoosts, latestBoosts, profiles, trending] = await Promise.allSettled([
+      dexScreenerProvider.fetchListings('boosts_top'),
+      dexScreenerProvider.fetchListings('boosts_latest'),
+      dexScreenerProvider.fetchListings('profiles'),
+      geckoTerminalProvider.fetchTrendingPools(),
+    ]);
+
+    for (const [result, label] of [[topBoosts, 'Top boosted'], [latestBoosts, 'Recently boosted']] as const) {
+      if (result.status === 'rejected') continue;
+      for (const listing of result.value) {
+        if (listing.chainId !== 'solana') continue;
+        add({
+          address: listing.tokenAddress,
+          source: 'dexscreener_boost',
+          reason: `${label} on DexScreener (${listing.totalAmount ?? listing.amount ?? 0} boosts)`,
+        });
+      }
+    }
+
+    if (profiles.status === 'fulfilled') {
+      for (const listing of profiles.value) {
+        if (listing.chainId !== 'solana') continue;
+        add({
+          address: listing.tokenAddress,
+          source: 'dexscreener_profile',
+          reason: 'New token profile on DexScreener',
+        });
+      }
+    }
+
+    if (trending.status === 'fulfilled') {
+      trending.value.forEach((pool, index) => {
+        const baseId = pool.relationships?.base_token?.data.id;
+        if (!baseId) return;
+        add({
+          address: baseId.replace(/^solana_/, ''),
+          source: 'geckoterminal_trending',
+          reason: `Trending #${index + 1} on GeckoTerminal (${pool.attributes.name})`,
+        });
+      });
+    }
+
+    for (const result of [topBoosts, latestBoosts, profiles, trending]) {
+      if (result.status === 'rejected') {
+        console.warn('⚠️  [Discovery] Source failed:', result.reason instanceof Error ? result.reason.message : result.reason);
+      }
+    }
+
+    return Array.from(candidates.values());
+  }
+
+  /**
+   * Apply the admission rules to a candidate's pairs. Liquidity and volume are
+   * summed across pairs where the token is the base; age is the oldest pair's.
+   */
+  private evaluate(candidate: DiscoveryCandidate, pairs: DexScreenerPair[]): TokenMetadata | null {
+    const basePairs = getBasePairs(pairs, candidate.address);
+    const first = basePairs[0];
+    if (!first) {
+      return null;
+    }
+
+    const liquidityUsd = basePairs.reduce((sum, pair) => sum + (pair.liquidity?.usd || 0), 0);
+    const volumeH24 = basePairs.reduce((sum, pair) => sum + (pair.volume?.h24 || 0), 0);
+    const createdTimes = basePairs.map(pair => pair.pairCreatedAt).filter(t => typeof t === 'number' && t > 0);
+    const ageHours = createdTimes.length > 0 ? (Date.now() - Math.min(...createdTimes)) / 3600000 : 0;
+
+    if (
+      liquidityUsd < this.config.minLiquidityUsd ||
+      volumeH24 < this.config.minVolumeUsd ||
+      ageHours < this.config.minAgeHours
+    ) {
+      return null;
+    }
+
+    const discovery: TokenDiscovery = {
+      source: candidate.source,
+      reason: candidate.reason,
+      discoveredAt: new Date(),
+      metrics: { liquidityUsd, volumeH24, ageHours: Math.round(ageHours * 10) / 10 },
+    };
+
+    return {
+      name: first.baseToken.name,
+      symbol: first.baseToken.symbol,
+      tokenAddress: candidate.address,
+      chain: DEFAULT_CHAIN,
+      discovery,
+    };
+  }
+}
+
+// Singleton instance
+export const discoveryService = new DiscoveryService();
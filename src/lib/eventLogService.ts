@@ -0,0 +1,88 @@
+/**
+ * Event log service - records pipeline alerts in MongoDB, with an in-memory
+ * buffer of recent events when MongoDB is not connected
+ */
+
+import mongoose from 'mongoose';
+import { EventLogEntry, EventLogType } from '../types/token.js';
+import { EventLogModel } from '../models/eventLog.js';
+
+export interface EventLogQuery {
+  type?: EventLogType;
+  tokenId?: string;
+  since?: Date;
+  limit: number;
+}
+
+class EventLogService {
+  private recent: EventLogEntry[] = [];
+  private readonly MAX_RECENT = 500;
+
+  /**
+   * Check if MongoDB is connected
+   */
+  isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Record events of one type
+   */
+  async record<T extends { tokenId: string; symbol: string; timestamp: Date }>(type: EventLogType, events: T[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const entries: EventLogEntry[] = events.map(event => ({
+      type,
+      tokenId: event.tokenId,
+      symbol: event.symbol,
+      data: event,
+      timestamp: event.timestamp,
+    }));
+
+    this.recent.push(...entries);
+    if (this.recent.length > this.MAX_RECENT) {
+      this.recent.splice(0, this.recent.length - this.MAX_RECENT);
+    }
+
+    if (!this.isAvailable()) {
+      console.warn(`⚠️  [Events] MongoDB not connected, ${entries.length} ${type} event(s) kept in memory only`);
+      return;
+    }
+
+    try {
+      await EventLogModel.insertMany(entries, { ordered: false });
+      console.log(`📝 [Events] Logged ${entries.length} ${type} event(s)`);
+    } catch (error) {
+      console.error(`❌ [Events] Failed to log ${type} events:`, error);
+    }
+  }
+
+  /**
+   * Get logged events, newest first
+   */
+  async getEvents(query: EventLogQuery): Promise<EventLogEntry[]> {
+    if (!this.isAvailable()) {
+      return this.recent
+        .filter(entry =>
+          (!query.type || entry.type === query.type) &&
+          (!query.tokenId || entry.tokenId === query.tokenId) &&
+          (!query.since || entry.timestamp >= query.since)
+        )
+        .slice(-query.limit)
+        .reverse();
+    }
+
+    return EventLogModel.find({
+      ...(query.type && { type: query.type }),
+      ...(query.tokenId && { tokenId: query.tokenId }),
+      ...(query.since && { timestamp: { $gte: query.since } }),
+    })
+      .sort({ timestamp: -1 })
+      .limit(query.limit)
+      .select({ _id: 0 })
+      .lean<EventLogEntry[]>();
+  }
+}
+
+// Singleton instance
+export const eventLogService = new EventLogService();
@@ -0,0 +1,408 @@
+/**
+ * Filter expressions for the token list (filter= parameter), e.g.
+ * `volume.h1 > 50000 AND priceChange.h24 between -10 and 40 AND symbol in (WIF,BONK)`
+ *
+ *   expression := and (OR and)*
+ *   and        := unary (AND unary)*
+ *   unary      := NOT unary | '(' expression ')' | condition
+ *   condition  := field (= | != | > | >= | < | <=) value
+ *               | field [NOT] BETWEEN value AND value
+ *               | field [NOT] IN '(' value (',' value)* ')'
+ *               | field [NOT] CONTAINS value
+ *   value      := number | 'quoted' | "quoted" | bareword | TRUE | FALSE | NULL
+ *
+ * Keywords are case-insensitive. Fields are dot paths into TokenData.
+ */
+
+import { FilterNode, FilterOperator, FilterValue, TokenData } from '../types/token.js';
+import { ValidationError } from './customErrors.js';
+
+const MAX_EXPRESSION_LENGTH = 2000;
+
+// Top-level TokenData fields a filter can start from
+const TOKEN_FIELDS: readonly string[] = [
+  'tokenId', 'name', 'symbol', 'chainId', 'priceUsd', 'priceNative', 'priceChange', 'volume', 'transactions',
+  'fdv', 'marketCap', 'liquidity', 'pairAddress', 'dexId', 'sources', 'lastUpdated', 'd7', 'provenance',
+  'confidence', 'dataQuality', 'profile', 'tradeMetrics', 'indicators', 'createdAt', 'ageHours',
+];
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'BETWEEN', 'IN', 'CONTAINS', 'TRUE', 'FALSE', 'NULL'];
+const OPERATORS: readonly string[] = ['>=', '<=', '!=', '<>', '==', '=', '>', '<'];
+const WORD_CHAR = /[A-Za-z0-9_.\-+:]/;
+const NUMBER = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+interface Token {
+  kind: 'number' | 'string' | 'word' | 'operator' | '(' | ')' | ',' | 'end';
+  text: string;
+  position: number;
+}
+
+/**
+ * Throw a ValidationError for the filter parameter at a position
+ */
+function fail(message: string, position: number): never {
+  throw new ValidationError('Invalid filter expression', [
+    { field: 'filter', message: `${message} at position ${position}`, position },
+  ]);
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i] as string;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ kind: char, text: char, position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        fail('Unterminated string', i);
+      }
+      tokens.push({ kind: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else if ('<>=!'.includes(char)) {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) {
+        fail(`Unexpected character "${char}"`, i);
+      }
+      tokens.push({ kind: 'operator', text: operator, position: i });
+      i += operator.length;
+    } else if (WORD_CHAR.test(char)) {
+      const start = i;
+      while (i < source.length && WORD_CHAR.test(source[i] as string)) i++;
+      const text = source.slice(start, i);
+      tokens.push({ kind: NUMBER.test(text) ? 'number' : 'word', text, position: start });
+    } else {
+      fail(`Unexpected character "${char}"`, i);
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+class FilterParser {
+  private index: number = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FilterNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      fail(`Unexpected ${this.describe(next)}, expected AND, OR or the end of the expression`, next.position);
+    }
+    return node;
+  }
+
+  private parseOr(): FilterNode {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword('OR')) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] as FilterNode : { type: 'or', operands };
+  }
+
+  private parseAnd(): FilterNode {
+    const operands = [this.parseUnary()];
+    while (this.acceptKeyword('AND')) {
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] as FilterNode : { type: 'and', operands };
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.acceptKeyword('NOT')) {
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    if (this.peek().kind === '(') {
+      this.next();
+      const node = this.parseOr();
+      this.expect(')');
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterNode {
+    const field = this.parseField();
+    const token = this.peek();
+
+    if (token.kind === 'operator') {
+      this.next();
+      const operator = (token.text === '==' ? '=' : token.text === '<>' ? '!=' : token.text) as FilterOperator;
+      return { type: 'compare', field, operator, value: this.parseValue() };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+    let node: FilterNode;
+    if (this.acceptKeyword('BETWEEN')) {
+      const min = this.parseValue();
+      if (!this.acceptKeyword('AND')) {
+        fail(`Expected AND in BETWEEN, found ${this.describe(this.peek())}`, this.peek().position);
+      }
+      node = { type: 'between', field, min, max: this.parseValue() };
+    } else if (this.acceptKeyword('IN')) {
+      this.expect('(');
+      const values = [this.parseValue()];
+      while (this.peek().kind === ',') {
+        this.next();
+        values.push(this.parseValue());
+      }
+      this.expect(')');
+      node = { type: 'in', field, values };
+    } else if (this.acceptKeyword('CONTAINS')) {
+      node = { type: 'contains', field, value: this.parseValue() };
+    } else {
+      const found = this.peek();
+      return fail(`Expected an operator (=, !=, >, >=, <, <=, BETWEEN, IN, CONTAINS) after "${field}", found ${this.describe(found)}`, found.position);
+    }
+
+    return negated ? { type: 'not', operand: node } : node;
+  }
+
+  private parseField(): string {
+    const token = this.peek();
+    if (token.kind !== 'word' || this.isKeyword(token)) {
+      fail(`Expected a field name, found ${this.describe(token)}`, token.position);
+    }
+
+    const root = token.text.split('.')[0] || '';
+    if (!TOKEN_FIELDS.includes(root)) {
+      fail(`Unknown field "${root}"`, token.position);
+    }
+    if (token.text.split('.').some(segment => !segment)) {
+      fail(`Invalid field "${token.text}"`, token.position);
+    }
+
+    this.next();
+    return token.text;
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.peek();
+    switch (token.kind) {
+      case 'number':
+        this.next();
+        return parseFloat(token.text);
+      case 'string':
+        this.next();
+        return token.text;
+      case 'word': {
+        const keyword = token.text.toUpperCase();
+        if (keyword === 'TRUE' || keyword === 'FALSE' || keyword === 'NULL') {
+          this.next();
+          return keyword === 'NULL' ? null : keyword === 'TRUE';
+        }
+        if (this.isKeyword(token)) break;
+        this.next();
+        return token.text;
+      }
+    }
+    return fail(`Expected a value, found ${this.describe(token)}`, token.position);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] as Token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private expect(kind: Token['kind']): void {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      fail(`Expected "${kind}", found ${this.describe(token)}`, token.position);
+    }
+    this.next();
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'word' && token.text.toUpperCase() === keyword) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private isKeyword(token: Token): boolean {
+    return KEYWORDS.includes(token.text.toUpperCase());
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'end' ? 'the end of the expression' : `"${token.text}"`;
+  }
+}
+
+/**
+ * Parse a filter expression. Throws a ValidationError with the position of
+ * the first problem.
+ */
+export function parseFilterExpression(source: string): FilterNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    fail(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  if (!source.trim()) {
+    fail('Expression is empty', 0);
+  }
+  return new FilterParser(tokenize(source)).parse();
+}
+
+/**
+ * Fields referenced by an expression
+ */
+export function getFilterFields(node: FilterNode): string[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.operands.flatMap(getFilterFields);
+    case 'not':
+      return getFilterFields(node.operand);
+    default:
+      return [node.field];
+  }
+}
+
+/**
+ * Check whether a token matches an expression. Comparisons against a missing
+ * or null field are false (so NOT / != match tokens without the value).
+ */
+export function matchesFilter(node: FilterNode, token: TokenData): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.operands.every(operand => matchesFilter(operand, token));
+    case 'or':
+      return node.operands.some(operand => matchesFilter(operand, token));
+    case 'not':
+      return !matchesFilter(node.operand, token);
+    case 'compare': {
+      const value = resolveField(token, node.field);
+      if (node.operator === '=') return isEqual(value, node.value);
+      if (node.operator === '!=') return !isEqual(value, node.value);
+      const order = compare(value, node.value);
+      if (order === null) return false;
+      if (node.operator === '>') return order > 0;
+      if (node.operator === '>=') return order >= 0;
+      if (node.operator === '<') return order < 0;
+      return order <= 0;
+    }
+    case 'between': {
+      const value = resolveField(token, node.field);
+      const fromMin = compare(value, node.min);
+      const fromMax = compare(value, node.max);
+      if (fromMin === null || fromMax === null) return false;
+      // Accept the bounds in either order ("between 40 and -10")
+      return (fromMin >= 0 && fromMax <= 0) || (fromMin <= 0 && fromMax >= 0);
+    }
+    case 'in': {
+      const value = resolveField(token, node.field);
+      return node.values.some(candidate => isEqual(value, candidate));
+    }
+    case 'contains': {
+      const value = resolveField(token, node.field);
+      if (Array.isArray(value)) {
+        return value.some(item => isEqual(item, node.value));
+      }
+      return typeof value === 'string' && node.value !== null &&
+        value.toLowerCase().includes(String(node.value).toLowerCase());
+    }
+  }
+}
+
+/**
+ * Resolve a dot path in a token. Keys that themselves contain dots (such as
+ * the "bollinger20.upper" indicator) are matched before splitting further.
+ */
+function resolveField(value: unknown, path: string): unknown {
+  const segments = path.split('.');
+  let current = value;
+  let index = 0;
+
+  while (index < segments.length) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    let matched = false;
+    for (let end = segments.length; end > index; end--) {
+      const key = segments.slice(index, end).join('.');
+      if (Object.prototype.hasOwnProperty.call(current, key)) {
+        current = (current as Record<string, unknown>)[key];
+        index = end;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Equality: strings compare case-insensitively, numbers numerically and
+ * null matches missing values
+ */
+function isEqual(value: unknown, literal: FilterValue): boolean {
+  if (literal === null) {
+    return value === null || value === undefined;
+  }
+  if (value === null || value === undefined) {
+    return false;
+  }
+  if (typeof literal === 'number' || typeof value === 'number') {
+    return toNumber(value) === toNumber(literal);
+  }
+  return String(value).toLowerCase() === String(literal).toLowerCase();
+}
+
+/**
+ * Order a field value against a literal: numbers numerically, dates by time
+ * (literals as ISO dates) and strings alphabetically. Null when they cannot
+ * be compared.
+ */
+function compare(value: unknown, literal: FilterValue): number | null {
+  if (value === null || value === undefined || literal === null || typeof literal === 'boolean') {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    const time = typeof literal === 'number' ? literal : Date.parse(literal);
+    return isNaN(time) ? null : value.getTime() - time;
+  }
+
+  const number = toNumber(value);
+  const literalNumber = toNumber(literal);
+  if (number !== null && literalNumber !== null) {
+    return number - literalNumber;
+  }
+
+  if (typeof value === 'string' && typeof literal === 'string') {
+    // Cached tokens carry dates as ISO strings
+    const time = Date.parse(value);
+    const literalTime = Date.parse(literal);
+    if (!isNaN(time) && !isNaN(literalTime) && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return time - literalTime;
+    }
+    return value.localeCompare(literal, undefined, { sensitivity: 'base' });
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && NUMBER.test(value.trim())) return parseFloat(value);
+  return null;
+}
@@ -0,0 +1,198 @@
+/**
+ * History service - persists token snapshots to MongoDB and queries them back
+ */
+
+import mongoose, { PipelineStage } from 'mongoose';
+import { TokenData, HistoryInterval, HistoryPoint, Candle, CandleTimeframe } from '../types/token.js';
+import { TokenSnapshotModel } from '../models/tokenSnapshot.js';
+import { getTokenKey } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
+
+// $dateTrunc unit, bin size and length in ms for each interval
+export const INTERVAL_BUCKETS: Record<CandleTimeframe, { unit: string; binSize: number; ms: number }> = {
+  '1m': { unit: 'minute', binSize: 1, ms: 60 * 1000 },
+  '5m': { unit: 'minute', binSize: 5, ms: 5 * 60 * 1000 },
+  '15m': { unit: 'minute', binSize: 15, ms: 15 * 60 * 1000 },
+  '1h': { unit: 'hour', binSize: 1, ms: 60 * 60 * 1000 },
+  '4h': { unit: 'hour', binSize: 4, ms: 4 * 60 * 60 * 1000 },
+  '1d': { unit: 'day', binSize: 1, ms: 24 * 60 * 60 * 1000 },
+};
+
+export const CANDLE_TIMEFRAMES = Object.keys(INTERVAL_BUCKETS) as CandleTimeframe[];
+export const HISTORY_INTERVALS: HistoryInterval[] = ['raw', ...CANDLE_TIMEFRAMES];
+
+class HistoryService {
+  // Last recorded lastUpdated per token key (chain + address) so cached data is not stored twice
+  private lastRecorded: Map<string, number> = new Map();
+  private readonly MAX_POINTS = 5000;
+
+  /**
+   * Check if MongoDB is connected
+   */
+  isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Persist a snapshot for each token that changed since the last call
+   */
+  async recordSnapshots(tokens: TokenData[]): Promise<number> {
+    if (!this.isAvailable()) {
+      console.warn('⚠️  [History] MongoDB not connected, skipping snapshot');
+      return 0;
+    }
+
+    const snapshots = [];
+    for (const token of tokens) {
+      const timestamp = new Date(token.lastUpdated);
+      if (this.lastRecorded.get(getTokenKey(token.chainId, token.tokenId)) === timestamp.getTime()) {
+        continue;
+      }
+
+      snapshots.push({
+        tokenId: token.tokenId,
+        chainId: token.chainId,
+        timestamp,
+        priceUsd: token.priceUsd,
+        priceNative: token.priceNative,
+        priceChange: token.priceChange,
+        volume: token.volume,
+        transactions: token.transactions,
+        fdv: token.fdv,
+        marketCap: token.marketCap,
+        liquidity: token.liquidity,
+        sources: token.sources,
+      });
+    }
+
+    if (snapshots.length === 0) {
+      console.log('ℹ️  [History] No new data to snapshot');
+      return 0;
+    }
+
+    try {
+      await TokenSnapshotModel.insertMany(snapshots, { ordered: false });
+      snapshots.forEach(s => this.lastRecorded.set(getTokenKey(s.chainId, s.tokenId), s.timestamp.getTime()));
+      console.log(`💾 [History] Stored ${snapshots.length} snapshot(s)`);
+      return snapshots.length;
+    } catch (error) {
+      console.error('❌ [History] Error storing snapshots:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Match a token's snapshots. Snapshots stored without a chain belong to
+   * the default chain.
+   */
+  getSnapshotMatch(chainId: string, tokenId: string): Record<string, unknown> {
+    return {
+      tokenId,
+      chainId: chainId === DEFAULT_CHAIN ? { $in: [chainId, null] } : chainId,
+    };
+  }
+
+  /**
+   * Get price, volume, liquidity and market cap points for a token
+   */
+  async getHistory(
+    chainId: string,
+    tokenId: string,
+    from: Date,
+    to: Date,
+    interval: HistoryInterval = 'raw'
+  ): Promise<HistoryPoint[]> {
+    const pipeline: PipelineStage[] = [
+      { $match: { ...this.getSnapshotMatch(chainId, tokenId), timestamp: { $gte: from, $lte: to } } },
+      { $sort: { timestamp: 1 } },
+    ];
+
+    if (interval === 'raw') {
+      pipeline.push({
+        $project: {
+          _id: 0,
+          timestamp: 1,
+          priceUsd: 1,
+          volume: '$volume.h24',
+          liquidity: 1,
+          marketCap: 1,
+        },
+      });
+    } else {
+      const { unit, binSize } = INTERVAL_BUCKETS[interval];
+      pipeline.push(
+        {
+          $group: {
+            _id: { $dateTrunc: { date: '$timestamp', unit, binSize } },
+            priceUsd: { $last: '$priceUsd' },
+            volume: { $last: '$volume.h24' },
+            liquidity: { $last: '$liquidity' },
+            marketCap: { $last: '$marketCap' },
+          },
+        },
+        {
+          $project: {
+            _id: 0,
+            timestamp: '$_id',
+            priceUsd: 1,
+            volume: 1,
+            liquidity: 1,
+            marketCap: 1,
+          },
+        }
+      );
+    }
+
+    // Keep the most recent points when the range is too large
+    pipeline.push(
+      { $sort: { timestamp: -1 } },
+      { $limit: this.MAX_POINTS },
+      { $sort: { timestamp: 1 } }
+    );
+
+    return TokenSnapshotModel.aggregate<HistoryPoint>(pipeline);
+  }
+
+  /**
+   * Build OHLCV candles from stored snapshots.
+   * Snapshots only carry rolling volume windows, so candle volume is
+   * estimated from the average 1h volume rate over the bucket.
+   */
+  async getCandles(chainId: string, tokenId: string, timeframe: CandleTimeframe, limit: number): Promise<Candle[]> {
+    const { unit, binSize, ms } = INTERVAL_BUCKETS[timeframe];
+    const from = new Date(Date.now() - limit * ms);
+    const hourFraction = ms / (60 * 60 * 1000);
+
+    return TokenSnapshotModel.aggregate<Candle>([
+      { $match: { ...this.getSnapshotMatch(chainId, tokenId), timestamp: { $gte: from } } },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: { $dateTrunc: { date: '$timestamp', unit, binSize } },
+          open: { $first: '$priceUsd' },
+          high: { $max: '$priceUsd' },
+          low: { $min: '$priceUsd' },
+          close: { $last: '$priceUsd' },
+          hourlyVolume: { $avg: '$volume.h1' },
+        },
+      },
+      { $sort: { _id: -1 } },
+      { $limit: limit },
+      { $sort: { _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          timestamp: '$_id',
+          open: 1,
+          high: 1,
+          low: 1,
+          close: 1,
+          volume: { $multiply: [{ $ifNull: ['$hourlyVolume', 0] }, hourFraction] },
+        },
+      },
+    ]);
+  }
+}
+
+// Singleton instance
+export const historyService = new HistoryService();
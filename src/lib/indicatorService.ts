@@ -0,0 +1,271 @@
+/**
+ * Indicator service - technical indicators computed over stored snapshot candles
+ */
+
+import {
+  Candle,
+  CandleTimeframe,
+  IndicatorName,
+  IndicatorPoint,
+  IndicatorSpec,
+  TokenData,
+} from '../types/token.js';
+import { historyService } from './historyService.js';
+import { getTokenKey } from './addressValidation.js';
+
+// Period used when a spec has none (vwap is cumulative over the range)
+const DEFAULT_PERIODS: Record<IndicatorName, number> = {
+  sma: 20,
+  ema: 20,
+  rsi: 14,
+  vwap: 0,
+  bollinger: 20,
+};
+
+export const INDICATOR_NAMES = Object.keys(DEFAULT_PERIODS) as IndicatorName[];
+
+// Bollinger bands are this many standard deviations from the middle band
+const BOLLINGER_STD_DEVS = 2;
+
+// Maximum period accepted in a spec
+const MAX_PERIOD = 200;
+
+// How long computed list values are reused
+const LIST_CACHE_TTL = 60000;
+
+// Candles covered by list values (sets the VWAP range)
+const LIST_RANGE = 24;
+
+class IndicatorService {
+  // Latest values per token, interval and set for list requests
+  private latestCache: Map<string, { values: Record<string, number | null>; timestamp: number }> = new Map();
+
+  /**
+   * Parse a comma-separated set such as "sma,ema50,rsi14,vwap,bollinger20"
+   */
+  parseSet(set: string): { specs: IndicatorSpec[]; invalid: string[] } {
+    const specs: IndicatorSpec[] = [];
+    const invalid: string[] = [];
+
+    for (const entry of set.split(',').map(part => part.trim().toLowerCase()).filter(Boolean)) {
+      const match = entry.match(/^([a-z]+)(\d*)$/);
+      const name = match?.[1] as IndicatorName | undefined;
+      if (!match || !name || !INDICATOR_NAMES.includes(name) || (name === 'vwap' && match[2])) {
+        invalid.push(entry);
+        continue;
+      }
+
+      const period = match[2] ? parseInt(match[2], 10) : DEFAULT_PERIODS[name];
+      if (name !== 'vwap' && (period < 2 || period > MAX_PERIOD)) {
+        invalid.push(entry);
+        continue;
+      }
+
+      const key = name === 'vwap' ? 'vwap' : `${name}${period}`;
+      if (!specs.some(spec => spec.key === key)) {
+        specs.push({ name, period, key });
+      }
+    }
+
+    return { specs, invalid };
+  }
+
+  /**
+   * Output names produced by a set of specs
+   */
+  getOutputKeys(specs: IndicatorSpec[]): string[] {
+    return specs.flatMap(spec =>
+      spec.name === 'bollinger'
+        ? [`${spec.key}.upper`, `${spec.key}.middle`, `${spec.key}.lower`]
+        : [spec.key]
+    );
+  }
+
+  /**
+   * Compute indicators for candles (oldest first). Values are null until
+   * enough candles exist for the period; VWAP accumulates from `rangeStart`.
+   */
+  compute(candles: Candle[], specs: IndicatorSpec[], rangeStart: number = 0): IndicatorPoint[] {
+    const closes = candles.map(candle => candle.close);
+    const series: Record<string, Array<number | null>> = {};
+
+    for (const spec of specs) {
+      switch (spec.name) {
+        case 'sma':
+          series[spec.key] = this.sma(closes, spec.period);
+          break;
+        case 'ema':
+          series[spec.key] = this.ema(closes, spec.period);
+          break;
+        case 'rsi':
+          series[spec.key] = this.rsi(closes, spec.period);
+          break;
+        case 'vwap':
+          series[spec.key] = [
+            ...candles.slice(0, rangeStart).map(() => null),
+            ...this.vwap(candles.slice(rangeStart)),
+          ];
+          break;
+        case 'bollinger': {
+          const { upper, middle, lower } = this.bollinger(closes, spec.period);
+          series[`${spec.key}.upper`] = upper;
+          series[`${spec.key}.middle`] = middle;
+          series[`${spec.key}.lower`] = lower;
+          break;
+        }
+      }
+    }
+
+    return candles.map((candle, index) => ({
+      timestamp: candle.timestamp,
+      close: candle.close,
+      values: Object.fromEntries(Object.entries(series).map(([key, values]) => [key, values[index] ?? null])),
+    }));
+  }
+
+  /**
+   * Get indicator series for a token. Extra candles are loaded before the
+   * requested range so the first returned points are already warmed up.
+   */
+  async getIndicators(
+    chainId: string,
+    tokenId: string,
+    specs: IndicatorSpec[],
+    interval: CandleTimeframe,
+    limit: number
+  ): Promise<IndicatorPoint[]> {
+    const warmup = Math.max(0, ...specs.map(spec => spec.period * 3));
+    const candles = await historyService.getCandles(chainId, tokenId, interval, limit + warmup);
+    const rangeStart = Math.max(0, candles.length - limit);
+    return this.compute(candles, specs, rangeStart).slice(rangeStart);
+  }
+
+  /**
+   * Return copies of the tokens with the latest value of each indicator in
+   * `indicators` (null when history is missing or too short). VWAP covers
+   * the last LIST_RANGE candles.
+   */
+  async attachIndicators(tokens: TokenData[], specs: IndicatorSpec[], interval: CandleTimeframe): Promise<TokenData[]> {
+    const keys = this.getOutputKeys(specs);
+    const empty = Object.fromEntries(keys.map(key => [key, null]));
+    if (!historyService.isAvailable()) {
+      return tokens.map(token => ({ ...token, indicators: { ...empty } }));
+    }
+
+    const setKey = specs.map(spec => spec.key).join(',');
+    return Promise.all(tokens.map(async token => {
+      const cacheKey = `${getTokenKey(token.chainId, token.tokenId)}:${interval}:${setKey}`;
+      const cached = this.latestCache.get(cacheKey);
+      if (cached && Date.now() - cached.timestamp < LIST_CACHE_TTL) {
+        return { ...token, indicators: cached.values };
+      }
+
+      try {
+        const points = await this.getIndicators(token.chainId, token.tokenId, specs, interval, LIST_RANGE);
+        const values = { ...empty, ...points[points.length - 1]?.values };
+        this.latestCache.set(cacheKey, { values, timestamp: Date.now() });
+        return { ...token, indicators: values };
+      } catch (error) {
+        console.error(`❌ [Indicators] Failed to compute indicators for ${token.symbol}:`, error);
+        return { ...token, indicators: { ...empty } };
+      }
+    }));
+  }
+
+  /**
+   * Simple moving average
+   */
+  private sma(values: number[], period: number): Array<number | null> {
+    let sum = 0;
+    return values.map((value, index) => {
+      sum += value;
+      if (index >= period) sum -= values[index - period] ?? 0;
+      return index >= period - 1 ? sum / period : null;
+    });
+  }
+
+  /**
+   * Exponential moving average, seeded with the SMA of the first period
+   */
+  private ema(values: number[], period: number): Array<number | null> {
+    const k = 2 / (period + 1);
+    let previous: number | null = null;
+    return values.map((value, index) => {
+      if (index < period - 1) return null;
+      if (previous === null) {
+        previous = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+      } else {
+        previous = value * k + previous * (1 - k);
+      }
+      return previous;
+    });
+  }
+
+  /**
+   * Relative strength index with Wilder's smoothing
+   */
+  private rsi(values: number[], period: number): Array<number | null> {
+    const result: Array<number | null> = values.map(() => null);
+    let avgGain = 0;
+    let avgLoss = 0;
+
+    for (let i = 1; i < values.length; i++) {
+      const change = (values[i] ?? 0) - (values[i - 1] ?? 0);
+      const gain = Math.max(0, change);
+      const loss = Math.max(0, -change);
+
+      if (i <= period) {
+        avgGain += gain / period;
+        avgLoss += loss / period;
+        if (i < period) continue;
+      } else {
+        avgGain = (avgGain * (period - 1) + gain) / period;
+        avgLoss = (avgLoss * (period - 1) + loss) / period;
+      }
+
+      result[i] = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+    }
+
+    return result;
+  }
+
+  /**
+   * Volume-weighted average of the typical price, cumulative over the range
+   */
+  private vwap(candles: Candle[]): Array<number | null> {
+    let priceVolume = 0;
+    let volume = 0;
+    return candles.map(candle => {
+      priceVolume += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+      volume += candle.volume;
+      return volume > 0 ? priceVolume / volume : null;
+    });
+  }
+
+  /**
+   * Bollinger bands: SMA plus/minus a number of standard deviations
+   */
+  private bollinger(values: number[], period: number): Record<'upper' | 'middle' | 'lower', Array<number | null>> {
+    const middle = this.sma(values, period);
+    const upper: Array<number | null> = [];
+    const lower: Array<number | null> = [];
+
+    middle.forEach((mean, index) => {
+      if (mean === null) {
+        upper.push(null);
+        lower.push(null);
+        return;
+      }
+      const window = values.slice(index - period + 1, index + 1);
+      const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+      const deviation = BOLLINGER_STD_DEVS * Math.sqrt(variance);
+      upper.push(mean + deviation);
+      lower.push(mean - deviation);
+    });
+
+    return { upper, middle, lower };
+  }
+}
+
+// Singleton instance
+export const indicatorService = new IndicatorService();
@@ -0,0 +1,188 @@
+/**
+ * Liquidity monitor - tracks liquidity per pool and per token over a rolling
+ * window and flags rug-pull risk: sharp liquidity drains, or sells heavily
+ * outnumbering buys while the price collapses
+ */
+
+import { LiquidityDrainEvent, TimeWindow, TokenData, TokenPair } from '../types/token.js';
+import { cacheService } from './cacheService.js';
+import { getTokenKey } from './addressValidation.js';
+
+export interface LiquidityMonitorConfig {
+  drainPct: number;
+  windowMinutes: number;
+  minLiquidityUsd: number;
+  sellBuyRatio: number;
+  minSells: number;
+  priceDropPct: number;
+  cooldownMinutes: number;
+}
+
+// Windows checked for sell pressure
+const SELL_PRESSURE_WINDOWS: TimeWindow[] = ['m5', 'h1'];
+
+interface LiquidityPoint {
+  at: number;
+  liquidityUsd: number;
+}
+
+class LiquidityMonitorService {
+  private config: LiquidityMonitorConfig = {
+    drainPct: 30,
+    windowMinutes: 30,
+    minLiquidityUsd: 5000,
+    sellBuyRatio: 3,
+    minSells: 20,
+    priceDropPct: 20,
+    cooldownMinutes: 30,
+  };
+  // Liquidity history per series ("<tokenKey>" or "<tokenKey>:<pairAddress>", see getTokenKey)
+  private history: Map<string, LiquidityPoint[]> = new Map();
+  // Last alert time per series and reason
+  private lastAlerts: Map<string, number> = new Map();
+
+  /**
+   * Update configuration (unset values keep their defaults)
+   */
+  configure(config: Partial<LiquidityMonitorConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value) && value > 0) {
+        this.config[key as keyof LiquidityMonitorConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): LiquidityMonitorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Record the latest liquidity of each token and its cached pools, and
+   * return new drain / sell-pressure events
+   */
+  async check(tokens: TokenData[]): Promise<LiquidityDrainEvent[]> {
+    const now = Date.now();
+    const events: LiquidityDrainEvent[] = [];
+
+    for (const token of tokens) {
+      const tokenKey = getTokenKey(token.chainId, token.tokenId);
+      const total = this.track(tokenKey, token.liquidity, now);
+      if (total) {
+        events.push(this.drainEvent(token, 'token_liquidity', null, total));
+      }
+
+      const pairs: TokenPair[] = (await cacheService.getPairs(tokenKey)) || [];
+      for (const pair of pairs) {
+        const drain = this.track(`${tokenKey}:${pair.pairAddress}`, pair.liquidityUsd, now);
+        if (drain) {
+          events.push(this.drainEvent(token, 'pool_liquidity', pair, drain));
+        }
+      }
+
+      const sellPressure = this.checkSellPressure(token, now);
+      if (sellPressure) {
+        events.push(sellPressure);
+      }
+    }
+
+    if (events.length > 0) {
+      console.log(`🩸 [Liquidity] Detected ${events.length} liquidity drain / sell pressure event(s)`);
+    }
+    return events;
+  }
+
+  /**
+   * Add a liquidity point to a series and check it against the window's peak
+   */
+  private track(key: string, liquidityUsd: number, now: number): LiquidityDrainEvent['liquidity'] {
+    if (!isFinite(liquidityUsd) || liquidityUsd < 0) return null;
+
+    const windowMs = this.config.windowMinutes * 60 * 1000;
+    const points = (this.history.get(key) || []).filter(point => now - point.at <= windowMs);
+    const peak = points.reduce((max, point) => Math.max(max, point.liquidityUsd), 0);
+
+    points.push({ at: now, liquidityUsd });
+    this.history.set(key, points);
+
+    if (peak < this.config.minLiquidityUsd) return null;
+
+    const dropPct = ((peak - liquidityUsd) / peak) * 100;
+    if (dropPct < this.config.drainPct || this.inCooldown(`${key}:drain`, now)) return null;
+
+    return {
+      fromUsd: peak,
+      toUsd: liquidityUsd,
+      dropPct,
+      windowMinutes: this.config.windowMinutes,
+    };
+  }
+
+  /**
+   * Sells outnumbering buys by the configured ratio while price falls
+   */
+  private checkSellPressure(token: TokenData, now: number): LiquidityDrainEvent | null {
+    for (const window of SELL_PRESSURE_WINDOWS) {
+      const buys = token.transactions[window]?.buys || 0;
+      const sells = token.transactions[window]?.sells || 0;
+      const priceChangePct = token.priceChange[window] || 0;
+
+      if (
+        sells >= this.config.minSells &&
+        sells >= this.config.sellBuyRatio * Math.max(buys, 1) &&
+        priceChangePct <= -this.config.priceDropPct &&
+        !this.inCooldown(`${getTokenKey(token.chainId, token.tokenId)}:sell_pressure`, now)
+      ) {
+        return {
+          tokenId: token.tokenId,
+          symbol: token.symbol,
+          reason: 'sell_pressure',
+          dexId: null,
+          pairAddress: null,
+          liquidity: null,
+          sellPressure: { window, buys, sells, priceChangePct },
+          timestamp: new Date(now),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check and start the cooldown for an alert key
+   */
+  private inCooldown(key: string, now: number): boolean {
+    const last = this.lastAlerts.get(key);
+    if (last !== undefined && now - last < this.config.cooldownMinutes * 60 * 1000) {
+      return true;
+    }
+    this.lastAlerts.set(key, now);
+    return false;
+  }
+
+  /**
+   * Build a liquidity drain event
+   */
+  private drainEvent(
+    token: TokenData,
+    reason: 'pool_liquidity' | 'token_liquidity',
+    pair: TokenPair | null,
+    liquidity: NonNullable<LiquidityDrainEvent['liquidity']>
+  ): LiquidityDrainEvent {
+    return {
+      tokenId: token.tokenId,
+      symbol: token.symbol,
+      reason,
+      dexId: pair?.dexId ?? null,
+      pairAddress: pair?.pairAddress ?? null,
+      liquidity,
+      sellPressure: null,
+      timestamp: new Date(),
+    };
+  }
+}
+
+// Singleton instance
+export const liquidityMonitorService = new LiquidityMonitorService();
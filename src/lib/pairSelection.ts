@@ -0,0 +1,69 @@
+/**
+ * Pair selection policy - picks the DEX pair a token's price is read from
+ */
+
+import { DexScreenerPair, TokenMetadata } from '../types/token.js';
+import { getAddressKey } from './addressValidation.js';
+
+export interface PairSelection {
+  pair: DexScreenerPair;
+  reason: 'pinned-pair' | 'pinned-dex' | 'liquidity' | 'volume';
+}
+
+/**
+ * Keep only pairs where the token is the base token, so `priceUsd` is the
+ * price of our token rather than the other side of the pair
+ */
+export function getBasePairs(pairs: DexScreenerPair[], tokenAddress: string): DexScreenerPair[] {
+  const key = getAddressKey(tokenAddress);
+  return pairs.filter(pair => pair.baseToken?.address && getAddressKey(pair.baseToken.address) === key);
+}
+
+/**
+ * Select the pair to read a token's price from:
+ * 1. the pinned pair address, if it is a base pair
+ * 2. otherwise base pairs on the pinned DEX (if any), else all base pairs
+ * 3. the pair with the deepest USD liquidity, falling back to 24h volume
+ *    when no pair reports liquidity
+ */
+export function selectPair(pairs: DexScreenerPair[], metadata: TokenMetadata): PairSelection | null {
+  const basePairs = getBasePairs(pairs, metadata.tokenAddress);
+
+  if (basePairs.length === 0) {
+    if (pairs.length > 0) {
+      console.warn(`⚠️  [Pair Selection] ${metadata.symbol}: ${pairs.length} pair(s) found but none with the token as base`);
+    }
+    return null;
+  }
+
+  if (metadata.pinnedPairAddress) {
+    const pinned = basePairs.find(pair => pair.pairAddress === metadata.pinnedPairAddress);
+    if (pinned) {
+      return { pair: pinned, reason: 'pinned-pair' };
+    }
+    console.warn(`⚠️  [Pair Selection] ${metadata.symbol}: pinned pair ${metadata.pinnedPairAddress} not found, using policy`);
+  }
+
+  let candidates = basePairs;
+  let pinnedDex = false;
+  if (metadata.pinnedDexId) {
+    const onDex = basePairs.filter(pair => pair.dexId === metadata.pinnedDexId);
+    if (onDex.length > 0) {
+      candidates = onDex;
+      pinnedDex = true;
+    } else {
+      console.warn(`⚠️  [Pair Selection] ${metadata.symbol}: no pairs on pinned DEX ${metadata.pinnedDexId}, using policy`);
+    }
+  }
+
+  const hasLiquidity = candidates.some(pair => (pair.liquidity?.usd || 0) > 0);
+  const score = (pair: DexScreenerPair) =>
+    hasLiquidity ? pair.liquidity?.usd || 0 : pair.volume?.h24 || 0;
+
+  const best = candidates.reduce((prev, current) => (score(current) > score(prev) ? current : prev));
+
+  return {
+    pair: best,
+    reason: pinnedDex ? 'pinned-dex' : hasLiquidity ? 'liquidity' : 'volume',
+  };
+}
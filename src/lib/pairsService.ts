@@ -0,0 +1,147 @@
+/**
+ * Pairs service - every DEX pair/pool a token trades in, merged across providers
+ */
+
+import { NewPairEvent, TokenMetadata, TokenPair } from '../types/token.js';
+import { ProviderResults } from '../types/provider.js';
+import { apiClient } from './apiClients.js';
+import { providerRegistry } from './providers/providerRegistry.js';
+import { cacheService } from './cacheService.js';
+import { getTokenKey } from './addressValidation.js';
+import { ServiceUnavailableError } from './customErrors.js';
+
+class PairsService {
+  // Pair addresses seen per token, to detect pools that appear later
+  private knownPairs: Map<string, Set<string>> = new Map();
+  // New pairs found since the last takeNewPairs() call
+  private pendingNewPairs: NewPairEvent[] = [];
+  // Only pools created within this many hours count as new
+  private newPairMaxAgeMs: number = 24 * 60 * 60 * 1000;
+  // Provider requests kept in reserve for the scheduler
+  private readonly UPSTREAM_RESERVE = 5;
+
+  /**
+   * Set the maximum age of a pool to be reported as new
+   */
+  setNewPairMaxAge(hours: number): void {
+    if (isFinite(hours) && hours > 0) {
+      this.newPairMaxAgeMs = hours * 60 * 60 * 1000;
+    }
+  }
+
+  /**
+   * Normalize pairs from every provider that supports it. The same pool
+   * reported by several providers is kept once; the first provider in
+   * registry order wins and later ones only fill in what it is missing.
+   */
+  buildPairs(providerResults: ProviderResults, metadata: TokenMetadata): TokenPair[] {
+    const pairs: Map<string, TokenPair> = new Map();
+
+    for (const provider of providerRegistry.getEnabled()) {
+      const result = providerResults.get(provider.name);
+      if (!provider.normalizePairs || !result || result.data === null || result.data === undefined) continue;
+
+      for (const pair of provider.normalizePairs(result.data, metadata)) {
+        if (!pair.pairAddress) continue;
+
+        const existing = pairs.get(pair.pairAddress);
+        if (!existing) {
+          pairs.set(pair.pairAddress, pair);
+          continue;
+        }
+
+        pairs.set(pair.pairAddress, {
+          ...existing,
+          dexId: existing.dexId !== 'unknown' ? existing.dexId : pair.dexId,
+          sources: [...existing.sources, ...pair.sources],
+          quoteToken: {
+            address: existing.quoteToken.address ?? pair.quoteToken.address,
+            symbol: existing.quoteToken.symbol ?? pair.quoteToken.symbol,
+          },
+          priceUsd: existing.priceUsd || pair.priceUsd,
+          liquidityUsd: existing.liquidityUsd || pair.liquidityUsd,
+          volume: { ...pair.volume, ...existing.volume },
+          createdAt: existing.createdAt ?? pair.createdAt,
+          url: existing.url ?? pair.url,
+        });
+      }
+    }
+
+    return Array.from(pairs.values());
+  }
+
+  /**
+   * Build and cache pairs from a fetch made for aggregation, so the pairs
+   * endpoint does not need extra upstream requests
+   */
+  async recordPairs(providerResults: ProviderResults, metadata: TokenMetadata, ttl?: number): Promise<TokenPair[]> {
+    const pairs = this.buildPairs(providerResults, metadata);
+    this.detectNewPairs(metadata, pairs);
+    await cacheService.setPairs(getTokenKey(metadata.chain, metadata.tokenAddress), pairs, ttl);
+    return pairs;
+  }
+
+  /**
+   * Queue pools not seen before for a token. The first time a token is seen
+   * its pools are only remembered; afterwards a pool counts as new if it was
+   * created recently (or its creation time is unknown), so older pools that
+   * just entered a provider's top list are not reported.
+   */
+  private detectNewPairs(metadata: TokenMetadata, pairs: TokenPair[]): void {
+    const key = getTokenKey(metadata.chain, metadata.tokenAddress);
+    const known = this.knownPairs.get(key);
+    this.knownPairs.set(
+      key,
+      new Set([...(known || []), ...pairs.map(pair => pair.pairAddress)])
+    );
+    if (!known) return;
+
+    const now = Date.now();
+    for (const pair of pairs) {
+      if (known.has(pair.pairAddress)) continue;
+      if (pair.createdAt && now - new Date(pair.createdAt).getTime() > this.newPairMaxAgeMs) continue;
+
+      console.log(`🆕 [Pairs] ${metadata.symbol}: new ${pair.dexId} pair ${pair.pairAddress}`);
+      this.pendingNewPairs.push({
+        tokenId: metadata.tokenAddress,
+        symbol: metadata.symbol,
+        pair,
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Return and clear the new pairs found since the last call
+   */
+  takeNewPairs(): NewPairEvent[] {
+    const events = this.pendingNewPairs;
+    this.pendingNewPairs = [];
+    return events;
+  }
+
+  /**
+   * Get all pairs for a token (cached, fetched from the providers on a miss
+   * with a single short attempt). Throws a ServiceUnavailableError when no
+   * provider could answer.
+   */
+  async getPairs(metadata: TokenMetadata): Promise<TokenPair[]> {
+    const cached = await cacheService.getPairs(getTokenKey(metadata.chain, metadata.tokenAddress));
+    if (cached) {
+      return cached;
+    }
+
+    console.log(`🔄 [Pairs] Cache miss - fetching pairs for ${metadata.symbol}`);
+    const providerResults = await apiClient.fetchTokenNow(metadata.tokenAddress, metadata.chain, this.UPSTREAM_RESERVE);
+    // Do not cache an empty list when every provider was skipped or failed
+    if (![...providerResults.values()].some(result => result !== null)) {
+      throw new ServiceUnavailableError(`Pair data for ${metadata.symbol} is not available right now`);
+    }
+    const pairs = await this.recordPairs(providerResults, metadata);
+    console.log(`✅ [Pairs] ${metadata.symbol}: ${pairs.length} pair(s)`);
+    return pairs;
+  }
+}
+
+// Singleton instance
+export const pairsService = new PairsService();
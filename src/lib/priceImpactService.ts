@@ -0,0 +1,132 @@
+/**
+ * Price impact service - estimates execution price and slippage from pool
+ * liquidity under a constant-product (x * y = k) assumption
+ */
+
+import { PriceImpactEstimate, TokenData, TokenMetadata, TokenPair, TradeEstimate } from '../types/token.js';
+import { pairsService } from './pairsService.js';
+import { cacheService } from './cacheService.js';
+import { getTokenKey } from './addressValidation.js';
+
+export interface PriceImpactConfig {
+  defaultSizeUsd: number;
+  maxPools: number;
+}
+
+class PriceImpactService {
+  private config: PriceImpactConfig = {
+    defaultSizeUsd: 5000,
+    maxPools: 5,
+  };
+
+  /**
+   * Update configuration (unset values keep their defaults)
+   */
+  configure(config: Partial<PriceImpactConfig>): void {
+    for (const [key, value] of Object.entries(config)) {
+      if (typeof value === 'number' && isFinite(value) && value > 0) {
+        this.config[key as keyof PriceImpactConfig] = value;
+      }
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): PriceImpactConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Estimate a buy and a sell of `sizeUsd` against a pool holding
+   * `liquidityUsd` in total. Each side of a constant-product pool holds half
+   * the liquidity (Q), so:
+   * - buying pays spot * (1 + size / Q)
+   * - selling receives spot / (1 + size / Q)
+   */
+  estimate(liquidityUsd: number, spotPriceUsd: number, sizeUsd: number): { buy: TradeEstimate; sell: TradeEstimate } | null {
+    const quoteReserve = liquidityUsd / 2;
+    if (quoteReserve <= 0 || spotPriceUsd <= 0) return null;
+
+    const ratio = sizeUsd / quoteReserve;
+    return {
+      buy: {
+        executionPriceUsd: spotPriceUsd * (1 + ratio),
+        priceImpactPct: ratio * 100,
+      },
+      sell: {
+        executionPriceUsd: spotPriceUsd / (1 + ratio),
+        priceImpactPct: (ratio / (1 + ratio)) * 100,
+      },
+    };
+  }
+
+  /**
+   * Buy-side price impact (%) of `sizeUsd` routed across a token's top pools,
+   * as in estimateForToken, or null when liquidity is unknown. Buying moves
+   * the price more than selling the same amount, so this is the worse of the
+   * two. Used by the token list, so it never calls upstream: pools come from
+   * the pairs cached by aggregation, and tokens without cached pairs are
+   * treated as a single pool holding their total liquidity.
+   */
+  async getBuyImpactPct(token: TokenData, sizeUsd: number = this.config.defaultSizeUsd): Promise<number | null> {
+    const pairs = await cacheService.getPairs(getTokenKey(token.chainId, token.tokenId));
+    const pools = this.selectPools(pairs || []);
+    const liquidityUsd = pools.length > 0
+      ? pools.reduce((sum, pool) => sum + pool.liquidityUsd, 0)
+      : token.liquidity || 0;
+    return this.estimate(liquidityUsd, 1, sizeUsd)?.buy.priceImpactPct ?? null;
+  }
+
+  /**
+   * Top pools by liquidity that an order is routed across
+   */
+  private selectPools(pairs: TokenPair[]): TokenPair[] {
+    return pairs
+      .filter(pair => pair.liquidityUsd > 0 && pair.priceUsd > 0)
+      .sort((a, b) => b.liquidityUsd - a.liquidityUsd)
+      .slice(0, this.config.maxPools);
+  }
+
+  /**
+   * Estimate a trade routed across the token's top pools by liquidity.
+   * Splitting an order in proportion to reserves equalizes the marginal price
+   * across constant-product pools, which makes them behave like one pool
+   * holding their combined liquidity.
+   */
+  async estimateForToken(metadata: TokenMetadata, sizeUsd: number = this.config.defaultSizeUsd): Promise<PriceImpactEstimate> {
+    const pools = this.selectPools(await pairsService.getPairs(metadata));
+
+    const liquidityUsd = pools.reduce((sum, pool) => sum + pool.liquidityUsd, 0);
+    const spotPriceUsd = liquidityUsd > 0
+      ? pools.reduce((sum, pool) => sum + pool.priceUsd * pool.liquidityUsd, 0) / liquidityUsd
+      : null;
+
+    const routed = spotPriceUsd !== null ? this.estimate(liquidityUsd, spotPriceUsd, sizeUsd) : null;
+
+    return {
+      tokenId: metadata.tokenAddress,
+      symbol: metadata.symbol,
+      sizeUsd,
+      spotPriceUsd,
+      liquidityUsd,
+      buy: routed?.buy ?? null,
+      sell: routed?.sell ?? null,
+      pools: pools.flatMap(pool => {
+        const standalone = this.estimate(pool.liquidityUsd, pool.priceUsd, sizeUsd);
+        if (!standalone) return [];
+        return [{
+          dexId: pool.dexId,
+          pairAddress: pool.pairAddress,
+          priceUsd: pool.priceUsd,
+          liquidityUsd: pool.liquidityUsd,
+          allocationUsd: (sizeUsd * pool.liquidityUsd) / liquidityUsd,
+          standalone,
+        }];
+      }),
+    };
+  }
+}
+
+// Singleton instance
+export const priceImpactService = new PriceImpactService();
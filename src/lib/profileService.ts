@@ -0,0 +1,134 @@
+/**
+ * Profile service - slow-changing token metadata (logo, decimals, supply),
+ * captured from provider responses and refreshed far less often than prices
+ */
+
+import { TokenMetadata, TokenProfile } from '../types/token.js';
+import { ProviderResults } from '../types/provider.js';
+import { apiClient } from './apiClients.js';
+import { providerRegistry } from './providers/providerRegistry.js';
+import { cacheService } from './cacheService.js';
+import { getTokenKey } from './addressValidation.js';
+import { REQUEST_TIME_OPTIONS } from './providers/baseProvider.js';
+
+class ProfileService {
+  private refreshIntervalMs: number = 24 * 60 * 60 * 1000; // 24 hours
+  // Profiles (by token key) kept in memory so every price fetch does not hit Redis
+  private profiles: Map<string, TokenProfile> = new Map();
+  // Provider requests kept in reserve for the scheduler
+  private readonly UPSTREAM_RESERVE = 5;
+
+  /**
+   * Set how long a profile is kept before it is refreshed
+   */
+  setRefreshInterval(hours: number): void {
+    if (isFinite(hours) && hours > 0) {
+      this.refreshIntervalMs = hours * 60 * 60 * 1000;
+    }
+  }
+
+  /**
+   * Check whether a profile is older than the refresh interval
+   */
+  private isStale(profile: TokenProfile): boolean {
+    return Date.now() - new Date(profile.updatedAt).getTime() > this.refreshIntervalMs;
+  }
+
+  /**
+   * Get a stored profile (memory, then Redis) that is still fresh
+   */
+  private async getStored(key: string): Promise<TokenProfile | null> {
+    const memory = this.profiles.get(key);
+    if (memory && !this.isStale(memory)) {
+      return memory;
+    }
+
+    const cached = await cacheService.getProfile(key);
+    if (cached && !this.isStale(cached)) {
+      this.profiles.set(key, cached);
+      return cached;
+    }
+
+    return null;
+  }
+
+  /**
+   * Build a profile from the first provider (in registry order) that has one
+   */
+  private buildProfile(providerResults: ProviderResults, metadata: TokenMetadata): TokenProfile | null {
+    for (const provider of providerRegistry.getEnabled()) {
+      const result = providerResults.get(provider.name);
+      if (!provider.normalizeProfile || !result || result.data === null || result.data === undefined) continue;
+
+      const profile = provider.normalizeProfile(result.data, metadata);
+      if (profile) return profile;
+    }
+    return null;
+  }
+
+  /**
+   * Store a profile from a fetch made for aggregation, unless a fresh one
+   * is already stored
+   */
+  async recordProfile(providerResults: ProviderResults, metadata: TokenMetadata): Promise<void> {
+    const key = getTokenKey(metadata.chain, metadata.tokenAddress);
+    if (await this.getStored(key)) {
+      return;
+    }
+
+    const profile = this.buildProfile(providerResults, metadata);
+    if (!profile) return;
+
+    this.profiles.set(key, profile);
+    await cacheService.setProfile(key, profile, Math.round(this.refreshIntervalMs / 1000));
+    console.log(`🪪 [Profile] Stored profile for ${metadata.symbol} (${profile.source})`);
+  }
+
+  /**
+   * Forget profiles kept in memory (the Redis copies are dropped by
+   * cacheService.clearAll)
+   */
+  clearMemory(): void {
+    this.profiles.clear();
+  }
+
+  /**
+   * Get a token's stored profile without any upstream call (null until the
+   * scheduler's fetches have recorded one)
+   */
+  async getStoredProfile(metadata: TokenMetadata): Promise<TokenProfile | null> {
+    return this.getStored(getTokenKey(metadata.chain, metadata.tokenAddress));
+  }
+
+  /**
+   * Get a token's profile, fetching it from the providers when none is stored
+   * (one short attempt per healthy provider, as an API client is waiting)
+   */
+  async getProfile(metadata: TokenMetadata): Promise<TokenProfile | null> {
+    const key = getTokenKey(metadata.chain, metadata.tokenAddress);
+    const stored = await this.getStored(key);
+    if (stored) {
+      return stored;
+    }
+
+    // Only ask the providers that can supply a profile
+    const providerResults: ProviderResults = new Map();
+    for (const provider of providerRegistry.getEnabled()) {
+      if (!provider.normalizeProfile || !provider.canServeRequest(this.UPSTREAM_RESERVE)) continue;
+      try {
+        providerResults.set(provider.name, {
+          data: await apiClient.fetchFromProvider(provider.name, metadata.tokenAddress, metadata.chain, REQUEST_TIME_OPTIONS),
+          fetchedAt: new Date(),
+        });
+      } catch (error) {
+        console.error(`⚠️  [Profile] ${provider.name} failed for ${metadata.symbol}:`, error);
+      }
+    }
+
+    await this.recordProfile(providerResults, metadata);
+    return this.profiles.get(key) || null;
+  }
+}
+
+// Singleton instance
+export const profileService = new ProfileService();
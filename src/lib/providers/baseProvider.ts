@@ -0,0 +1,226 @@
+/**
+ * Base class for market data providers with retry logic and rate limiting
+ */
+
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import { TimeWindow, TokenData, TokenMetadata } from '../../types/token.js';
+import {
+  MarketDataProvider,
+  ProviderHealth,
+  ProviderRateLimitStatus,
+  RateLimitPolicy,
+  RequestOptions,
+  RetryConfig,
+} from '../../types/provider.js';
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 5, // Increased from 3 to handle more retries
+  baseDelay: 2000, // Increased from 1000ms to 2000ms
+  maxDelay: 30000, // Increased from 10000ms to 30000ms
+};
+
+// Requests made while an API client waits: one short attempt, no rate limit wait
+export const REQUEST_TIME_OPTIONS: RequestOptions = {
+  retry: { maxRetries: 0, baseDelay: 0, maxDelay: 0 },
+  timeoutMs: 3000,
+  failWhenLimited: true,
+};
+
+// Consecutive failures after which a provider is reported as unhealthy
+const UNHEALTHY_AFTER_FAILURES = 3;
+
+export abstract class BaseMarketDataProvider<TRaw> implements MarketDataProvider<TRaw> {
+  abstract readonly name: string;
+  abstract readonly windows: readonly TimeWindow[];
+  readonly rateLimit: RateLimitPolicy;
+  enabled: boolean = true;
+
+  protected client: AxiosInstance;
+  private retryConfig: RetryConfig;
+  private requestCount: number = 0;
+  private resetTime: number;
+  private lastSuccess: Date | null = null;
+  private lastError: string | null = null;
+  private consecutiveFailures: number = 0;
+
+  constructor(baseURL: string, rateLimit: RateLimitPolicy, retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG) {
+    this.rateLimit = rateLimit;
+    this.retryConfig = retryConfig;
+    this.resetTime = Date.now() + rateLimit.windowMs;
+    this.client = axios.create({
+      baseURL,
+      timeout: 10000,
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  abstract fetch(tokenAddress: string, chain?: string, options?: RequestOptions): Promise<TRaw | null>;
+
+  abstract normalize(raw: TRaw, metadata: TokenMetadata): Partial<TokenData> | null;
+
+  /**
+   * Perform a rate-limited GET request with retries
+   */
+  protected async get<T>(url: string, params?: Record<string, unknown>, options: RequestOptions = {}): Promise<T> {
+    await this.checkRateLimit(options.failWhenLimited);
+
+    try {
+      const data = await this.retryWithBackoff(async () => {
+        const response = await this.client.get<T>(url, {
+          ...(params && { params }),
+          ...(options.timeoutMs && { timeout: options.timeoutMs }),
+        });
+        return response.data;
+      }, options.retry);
+      this.lastSuccess = new Date();
+      this.consecutiveFailures = 0;
+      return data;
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      this.consecutiveFailures++;
+      throw error;
+    }
+  }
+
+  /**
+   * Exponential backoff delay calculation
+   */
+  private calculateBackoffDelay(retryCount: number): number {
+    const delay = Math.min(
+      this.retryConfig.baseDelay * Math.pow(2, retryCount),
+      this.retryConfig.maxDelay
+    );
+    // Add jitter to prevent thundering herd
+    return delay + Math.random() * 1000;
+  }
+
+  /**
+   * Sleep utility
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Check and wait for rate limit (or throw when failWhenLimited is set)
+   */
+  private async checkRateLimit(failWhenLimited: boolean = false): Promise<void> {
+    const now = Date.now();
+
+    // Reset counter if time window has passed
+    if (now >= this.resetTime) {
+      if (this.requestCount > 0) {
+        console.log(`🔄 [Rate Limit] ${this.name} counter reset (used ${this.requestCount}/${this.rateLimit.maxRequests} in last window)`);
+      }
+      this.requestCount = 0;
+      this.resetTime = now + this.rateLimit.windowMs;
+    }
+
+    // Wait if rate limit exceeded
+    if (this.requestCount >= this.rateLimit.maxRequests) {
+      const waitTime = this.resetTime - now;
+      if (failWhenLimited) {
+        throw new Error(`${this.name} rate limit reached, resets in ${Math.ceil(waitTime/1000)}s`);
+      }
+      console.log(`⏳ [Rate Limit] ${this.name} limit reached (${this.rateLimit.maxRequests}/${this.rateLimit.maxRequests}). Waiting ${Math.ceil(waitTime/1000)}s...`);
+      await this.sleep(waitTime);
+      this.requestCount = 0;
+      this.resetTime = Date.now() + this.rateLimit.windowMs;
+    }
+
+    this.requestCount++;
+    const remaining = this.rateLimit.maxRequests - this.requestCount;
+    console.log(`📊 [Rate Limit] ${this.name}: ${this.requestCount}/${this.rateLimit.maxRequests} used (${remaining} remaining)`);
+  }
+
+  /**
+   * Generic retry logic with exponential backoff
+   */
+  private async retryWithBackoff<T>(operation: () => Promise<T>, config: RetryConfig = this.retryConfig): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error as Error;
+        const axiosError = error as AxiosError;
+
+        // Log the error details
+        console.error(`❌ [API Error] ${this.name} attempt ${attempt + 1}/${config.maxRetries + 1} failed`);
+        if (axiosError.response) {
+          console.error(`❌ [API Error] Status: ${axiosError.response.status} ${axiosError.response.statusText}`);
+          console.error(`❌ [API Error] URL: ${axiosError.config?.url}`);
+
+          // Special handling for 429 (Too Many Requests) when another attempt follows
+          if (axiosError.response.status === 429 && attempt < config.maxRetries) {
+            const retryAfter = axiosError.response.headers['retry-after'];
+            const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : config.maxDelay;
+            console.warn(`⚠️  [API Error] Rate limit exceeded. Waiting ${waitTime}ms before retry...`);
+            await this.sleep(waitTime);
+          }
+        } else if (axiosError.request) {
+          console.error(`❌ [API Error] No response received - Network error`);
+        } else {
+          console.error(`❌ [API Error] ${axiosError.message}`);
+        }
+
+        // Don't retry on 4xx errors (except 429)
+        if (axiosError.response?.status &&
+            axiosError.response.status >= 400 &&
+            axiosError.response.status < 500 &&
+            axiosError.response.status !== 429) {
+          console.error(`❌ [API Error] Non-retryable error (${axiosError.response.status}). Giving up.`);
+          throw error;
+        }
+
+        if (attempt < config.maxRetries) {
+          const delay = this.calculateBackoffDelay(attempt);
+          console.log(`⚠️  [API Retry] Attempt ${attempt + 1} failed. Retrying in ${Math.ceil(delay/1000)}s...`);
+          await this.sleep(delay);
+        } else {
+          console.error(`❌ [API Error] All ${config.maxRetries + 1} attempts exhausted. Giving up.`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Get provider health
+   */
+  getHealth(): ProviderHealth {
+    return {
+      name: this.name,
+      enabled: this.enabled,
+      healthy: this.consecutiveFailures < UNHEALTHY_AFTER_FAILURES,
+      lastSuccess: this.lastSuccess,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+  }
+
+  /**
+   * Whether a request-time call is worth making: enabled, healthy and with
+   * more than `reserve` requests left in the current window
+   */
+  canServeRequest(reserve: number = 0): boolean {
+    return this.enabled &&
+      this.getHealth().healthy &&
+      this.getRateLimitStatus().remaining > reserve;
+  }
+
+  /**
+   * Get current rate limit status
+   */
+  getRateLimitStatus(): ProviderRateLimitStatus {
+    return {
+      remaining: this.rateLimit.maxRequests - this.requestCount,
+      total: this.rateLimit.maxRequests,
+      resetTime: new Date(this.resetTime),
+    };
+  }
+}
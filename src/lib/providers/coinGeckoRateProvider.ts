@@ -0,0 +1,71 @@
+/**
+ * CoinGecko reference rate provider - crypto prices in USD and fiat
+ * exchange rates derived from BTC's price in each currency
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { QuoteCurrency } from '../../types/token.js';
+import { ReferenceRateProvider, ReferenceRates } from '../../types/provider.js';
+
+// CoinGecko coin ids for the crypto quote currencies
+const COIN_IDS: Partial<Record<QuoteCurrency, string>> = {
+  SOL: 'solana',
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+};
+
+// Coin used to derive fiat rates (USD per unit = coin's USD price / its fiat price)
+const FIAT_REFERENCE_COIN = 'bitcoin';
+
+type SimplePriceResponse = Record<string, Record<string, number>>;
+
+export class CoinGeckoRateProvider implements ReferenceRateProvider {
+  readonly name = 'coingecko';
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: 'https://api.coingecko.com/api/v3',
+      timeout: 10000,
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Fetch USD per unit of each currency in one /simple/price request
+   */
+  async fetchRates(currencies: readonly QuoteCurrency[]): Promise<ReferenceRates> {
+    const fiat = currencies.filter(currency => currency !== 'USD' && !COIN_IDS[currency]);
+    const coinIds = new Set(currencies.map(currency => COIN_IDS[currency]).filter((id): id is string => !!id));
+    if (fiat.length > 0) {
+      coinIds.add(FIAT_REFERENCE_COIN);
+    }
+
+    const response = await this.client.get<SimplePriceResponse>('/simple/price', {
+      params: {
+        ids: Array.from(coinIds).join(','),
+        vs_currencies: ['usd', ...fiat.map(currency => currency.toLowerCase())].join(','),
+      },
+    });
+
+    const rates: ReferenceRates = {};
+    for (const currency of currencies) {
+      const coinId = COIN_IDS[currency];
+      if (coinId) {
+        const usd = response.data[coinId]?.usd;
+        if (usd && usd > 0) rates[currency] = usd;
+      } else if (currency !== 'USD') {
+        const reference = response.data[FIAT_REFERENCE_COIN];
+        const usd = reference?.usd;
+        const local = reference?.[currency.toLowerCase()];
+        if (usd && local && usd > 0 && local > 0) rates[currency] = usd / local;
+      }
+    }
+    return rates;
+  }
+}
+
+// Singleton instance
+export const coinGeckoRateProvider = new CoinGeckoRateProvider();
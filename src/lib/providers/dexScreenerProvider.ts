@@ -0,0 +1,209 @@
+/**
+ * DexScreener market data provider
+ */
+
+import { DexScreenerPair, DexScreenerTokenListing, TokenData, TokenMetadata, TokenPair } from '../../types/token.js';
+import { RequestOptions } from '../../types/provider.js';
+import { BaseMarketDataProvider } from './baseProvider.js';
+import { selectPair, getBasePairs } from '../pairSelection.js';
+import { getAddressKey } from '../addressValidation.js';
+import { getChainOrDefault } from '../chains.js';
+
+export class DexScreenerProvider extends BaseMarketDataProvider<DexScreenerPair[]> {
+  readonly name = 'dexscreener';
+  // DexScreener does not report 15m or 30m windows
+  readonly windows = ['m5', 'h1', 'h6', 'h24'] as const;
+
+  constructor() {
+    super('https://api.dexscreener.com', {
+      maxRequests: 250, // Reduced from 300 to add safety buffer
+      windowMs: 60000,
+    });
+  }
+
+  /**
+   * Fetch all pairs for a token from DexScreener
+   */
+  async fetch(tokenAddress: string, chain?: string, options?: RequestOptions): Promise<DexScreenerPair[]> {
+    const chainId = getChainOrDefault(chain).dexScreenerId;
+    console.log(`🔵 [DexScreener] Fetching token: ${tokenAddress}`);
+    console.log(`🔗 [DexScreener] URL: https://api.dexscreener.com/tokens/v1/${chainId}/${tokenAddress}`);
+
+    const startTime = Date.now();
+    const pairs = (await this.get<DexScreenerPair[]>(`/tokens/v1/${chainId}/${tokenAddress}`, undefined, options)) || [];
+    const duration = Date.now() - startTime;
+
+    console.log(`✅ [DexScreener] Success for ${tokenAddress} - Found ${pairs.length} pair(s) in ${duration}ms`);
+
+    if (pairs.length > 0 && pairs[0]) {
+      console.log(`📊 [DexScreener] Top pair: ${pairs[0].dexId} - Price: $${pairs[0].priceUsd} - Volume 24h: $${pairs[0].volume?.h24 || 0}`);
+    } else {
+      console.log(`⚠️  [DexScreener] No pairs found for token ${tokenAddress}`);
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Fetch pairs for several tokens in one request (DexScreener accepts up to
+   * 30 comma-separated addresses)
+   */
+  async fetchMany(tokenAddresses: string[], chain?: string): Promise<DexScreenerPair[]> {
+    const chainId = getChainOrDefault(chain).dexScreenerId;
+    const pairs: DexScreenerPair[] = [];
+
+    for (let i = 0; i < tokenAddresses.length; i += 30) {
+      const chunk = tokenAddresses.slice(i, i + 30);
+      console.log(`🔵 [DexScreener] Fetching ${chunk.length} token(s) in batch`);
+      const chunkPairs = (await this.get<DexScreenerPair[]>(`/tokens/v1/${chainId}/${chunk.join(',')}`)) || [];
+      pairs.push(...chunkPairs);
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Fetch the latest token profiles, latest boosts or top boosts (all chains)
+   */
+  async fetchListings(kind: 'profiles' | 'boosts_latest' | 'boosts_top'): Promise<DexScreenerTokenListing[]> {
+    const urls = {
+      profiles: '/token-profiles/latest/v1',
+      boosts_latest: '/token-boosts/latest/v1',
+      boosts_top: '/token-boosts/top/v1',
+    };
+
+    console.log(`🔵 [DexScreener] Fetching ${kind} listings`);
+    const listings = (await this.get<DexScreenerTokenListing[]>(urls[kind])) || [];
+    console.log(`✅ [DexScreener] Received ${listings.length} ${kind} listing(s)`);
+
+    return listings;
+  }
+
+  /**
+   * Normalize DexScreener data to TokenData format. Prices come from the pair
+   * chosen by the pair selection policy; liquidity is the total across all
+   * pairs where the token is the base.
+   */
+  normalize(pairs: DexScreenerPair[], metadata: TokenMetadata): Partial<TokenData> | null {
+    if (!pairs || pairs.length === 0) {
+      return null;
+    }
+
+    const selection = selectPair(pairs, metadata);
+    if (!selection) {
+      return null;
+    }
+
+    const { pair, reason } = selection;
+    console.log(`🎯 [DexScreener] ${metadata.symbol}: using ${pair.dexId} pair ${pair.pairAddress} (${reason})`);
+
+    const totalLiquidity = getBasePairs(pairs, metadata.tokenAddress)
+      .reduce((sum, basePair) => sum + (basePair.liquidity?.usd || 0), 0);
+
+    // Token age is taken from its oldest pair
+    const createdTimes = pairs.map(p => p.pairCreatedAt).filter(t => typeof t === 'number' && t > 0);
+
+    return {
+      tokenId: metadata.tokenAddress,
+      name: metadata.name,
+      symbol: metadata.symbol,
+      chainId: pair.chainId,
+      priceUsd: parseFloat(pair.priceUsd) || 0,
+      priceNative: parseFloat(pair.priceNative) || 0,
+      priceChange: {
+        m5: pair.priceChange?.m5 || 0,
+        m15: 0,
+        m30: 0,
+        h1: pair.priceChange?.h1 || 0,
+        h6: pair.priceChange?.h6 || 0,
+        h24: pair.priceChange?.h24 || 0,
+      },
+      volume: {
+        m5: pair.volume?.m5 || 0,
+        m15: 0,
+        m30: 0,
+        h1: pair.volume?.h1 || 0,
+        h6: pair.volume?.h6 || 0,
+        h24: pair.volume?.h24 || 0,
+      },
+      transactions: {
+        m5: {
+          buys: pair.txns?.m5?.buys || 0,
+          sells: pair.txns?.m5?.sells || 0,
+          buyers: null,
+          sellers: null,
+        },
+        m15: { buys: 0, sells: 0, buyers: null, sellers: null },
+        m30: { buys: 0, sells: 0, buyers: null, sellers: null },
+        h1: {
+          buys: pair.txns?.h1?.buys || 0,
+          sells: pair.txns?.h1?.sells || 0,
+          buyers: null,
+          sellers: null,
+        },
+        h6: {
+          buys: pair.txns?.h6?.buys || 0,
+          sells: pair.txns?.h6?.sells || 0,
+          buyers: null,
+          sellers: null,
+        },
+        h24: {
+          buys: pair.txns?.h24?.buys || 0,
+          sells: pair.txns?.h24?.sells || 0,
+          buyers: null,
+          sellers: null,
+        },
+      },
+      fdv: pair.fdv || 0,
+      marketCap: pair.marketCap || null,
+      ...(totalLiquidity > 0 && { liquidity: totalLiquidity }),
+      pairAddress: pair.pairAddress,
+      dexId: pair.dexId,
+      createdAt: createdTimes.length > 0 ? new Date(Math.min(...createdTimes)) : null,
+      sources: [this.name],
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Normalize every pair the token trades in. When the token is the quote
+   * side, prices are inverted so they always describe the token itself.
+   */
+  normalizePairs(pairs: DexScreenerPair[], metadata: TokenMetadata): TokenPair[] {
+    return (pairs || []).map(pair => {
+      const tokenIsBase = getAddressKey(pair.baseToken?.address || '') === getAddressKey(metadata.tokenAddress);
+      const other = tokenIsBase ? pair.quoteToken : pair.baseToken;
+      const pairPriceUsd = parseFloat(pair.priceUsd) || 0;
+      const pairPriceNative = parseFloat(pair.priceNative) || 0;
+
+      // Quote-side token: priceUsd / priceNative is the quote token's USD price
+      const priceUsd = tokenIsBase
+        ? pairPriceUsd
+        : pairPriceNative > 0 ? pairPriceUsd / pairPriceNative : 0;
+
+      return {
+        pairAddress: pair.pairAddress,
+        dexId: pair.dexId,
+        sources: [this.name],
+        tokenIsBase,
+        quoteToken: {
+          address: other?.address || null,
+          symbol: other?.symbol || null,
+        },
+        priceUsd,
+        liquidityUsd: pair.liquidity?.usd || 0,
+        volume: {
+          m5: pair.volume?.m5 || 0,
+          h1: pair.volume?.h1 || 0,
+          h6: pair.volume?.h6 || 0,
+          h24: pair.volume?.h24 || 0,
+        },
+        createdAt: pair.pairCreatedAt ? new Date(pair.pairCreatedAt) : null,
+        url: pair.url || null,
+      };
+    });
+  }
+}
+
+// Singleton instance
+export const dexScreenerProvider = new DexScreenerProvider();
@@ -0,0 +1,292 @@
+/**
+ * GeckoTerminal market data provider
+ */
+
+import {
+  Candle,
+  CandleTimeframe,
+  GeckoTerminalOHLCV,
+  GeckoTerminalToken,
+  GeckoTerminalTrendingPools,
+  TokenData,
+  TokenMetadata,
+  TokenPair,
+  TokenProfile,
+} from '../../types/token.js';
+import { RequestOptions } from '../../types/provider.js';
+import { BaseMarketDataProvider } from './baseProvider.js';
+import { getAddressKey, getTokenKey } from '../addressValidation.js';
+import { DEFAULT_CHAIN, getChainOrDefault } from '../chains.js';
+
+// GeckoTerminal OHLCV timeframe and aggregate for each candle timeframe
+const OHLCV_TIMEFRAMES: Record<CandleTimeframe, { timeframe: 'minute' | 'hour' | 'day'; aggregate: number }> = {
+  '1m': { timeframe: 'minute', aggregate: 1 },
+  '5m': { timeframe: 'minute', aggregate: 5 },
+  '15m': { timeframe: 'minute', aggregate: 15 },
+  '1h': { timeframe: 'hour', aggregate: 1 },
+  '4h': { timeframe: 'hour', aggregate: 4 },
+  '1d': { timeframe: 'day', aggregate: 1 },
+};
+
+export class GeckoTerminalProvider extends BaseMarketDataProvider<GeckoTerminalToken> {
+  readonly name = 'geckoterminal';
+  readonly windows = ['m5', 'm15', 'm30', 'h1', 'h6', 'h24'] as const;
+  // Top pool address per token key, remembered from the last token fetch
+  private topPools: Map<string, string> = new Map();
+
+  constructor() {
+    super('https://api.geckoterminal.com/api/v2', {
+      maxRequests: 25, // Reduced from 30 to add safety buffer
+      windowMs: 60000,
+    });
+  }
+
+  /**
+   * Fetch token data (with top pools) from GeckoTerminal
+   */
+  async fetch(tokenAddress: string, chain?: string, options?: RequestOptions): Promise<GeckoTerminalToken> {
+    const network = getChainOrDefault(chain).geckoTerminalId;
+    console.log(`🟢 [GeckoTerminal] Fetching token: ${tokenAddress}`);
+    console.log(`🔗 [GeckoTerminal] URL: https://api.geckoterminal.com/api/v2/networks/${network}/tokens/${tokenAddress}?include=top_pools&include_composition=false`);
+
+    const startTime = Date.now();
+    const data = await this.get<GeckoTerminalToken>(`/networks/${network}/tokens/${tokenAddress}`, {
+      include: 'top_pools',
+      include_composition: false,
+    }, options);
+    const duration = Date.now() - startTime;
+
+    console.log(`✅ [GeckoTerminal] Success for ${tokenAddress} in ${duration}ms`);
+    console.log(`📊 [GeckoTerminal] ${data.data.attributes.name} (${data.data.attributes.symbol}) - Price: $${data.data.attributes.price_usd} - Volume 24h: $${data.data.attributes.volume_usd.h24}`);
+
+    if (data.included && data.included.length > 0) {
+      console.log(`📊 [GeckoTerminal] Found ${data.included.length} pool(s)`);
+    }
+
+    const topPool = data.included?.[0]?.attributes.address;
+    if (topPool) {
+      this.topPools.set(getTokenKey(chain, tokenAddress), topPool);
+    }
+
+    return data;
+  }
+
+  /**
+   * Get the address of the token's top pool (fetches the token if unknown)
+   */
+  async getTopPoolAddress(tokenAddress: string, chain?: string, options?: RequestOptions): Promise<string | null> {
+    const key = getTokenKey(chain, tokenAddress);
+    if (!this.topPools.has(key)) {
+      await this.fetch(tokenAddress, chain, options);
+    }
+    return this.topPools.get(key) || null;
+  }
+
+  /**
+   * Fetch the currently trending pools on a chain (Solana by default)
+   */
+  async fetchTrendingPools(chain: string = DEFAULT_CHAIN): Promise<GeckoTerminalTrendingPools['data']> {
+    const network = getChainOrDefault(chain).geckoTerminalId;
+    console.log(`🟢 [GeckoTerminal] Fetching ${network} trending pools`);
+    const data = await this.get<GeckoTerminalTrendingPools>(`/networks/${network}/trending_pools`);
+    const pools = data?.data || [];
+    console.log(`✅ [GeckoTerminal] Received ${pools.length} trending pool(s)`);
+    return pools;
+  }
+
+  /**
+   * Fetch OHLCV candles for a pool, oldest first
+   */
+  async fetchOhlcv(
+    poolAddress: string,
+    timeframe: CandleTimeframe,
+    limit: number,
+    chain?: string,
+    options?: RequestOptions
+  ): Promise<Candle[]> {
+    const { timeframe: geckoTimeframe, aggregate } = OHLCV_TIMEFRAMES[timeframe];
+    const network = getChainOrDefault(chain).geckoTerminalId;
+    console.log(`🟢 [GeckoTerminal] Fetching ${timeframe} OHLCV for pool: ${poolAddress}`);
+
+    const data = await this.get<GeckoTerminalOHLCV>(
+      `/networks/${network}/pools/${poolAddress}/ohlcv/${geckoTimeframe}`,
+      {
+        aggregate,
+        limit,
+        currency: 'usd',
+      },
+      options
+    );
+
+    const list = data?.data?.attributes?.ohlcv_list || [];
+    console.log(`✅ [GeckoTerminal] Received ${list.length} candle(s) for pool ${poolAddress}`);
+
+    return list
+      .map(([timestamp, open, high, low, close, volume]) => ({
+        timestamp: new Date(timestamp * 1000),
+        open,
+        high,
+        low,
+        close,
+        volume,
+      }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Normalize GeckoTerminal data to TokenData format
+   */
+  normalize(data: GeckoTerminalToken, metadata: TokenMetadata): Partial<TokenData> | null {
+    if (!data?.data?.attributes) {
+      return null;
+    }
+
+    const pool = data.included?.[0];
+    const attributes = data.data.attributes;
+
+    // Token age is taken from its oldest top pool
+    const createdTimes = (data.included || [])
+      .map(p => new Date(p.attributes.pool_created_at).getTime())
+      .filter(t => isFinite(t) && t > 0);
+
+    return {
+      tokenId: metadata.tokenAddress,
+      name: metadata.name,
+      symbol: metadata.symbol,
+      chainId: getChainOrDefault(metadata.chain).id,
+      priceUsd: parseFloat(attributes.price_usd) || 0,
+      priceNative: pool ? parseFloat(pool.attributes.base_token_price_native_currency) : 0,
+      priceChange: {
+        m5: pool ? parseFloat(pool.attributes.price_change_percentage?.m5 || '0') : 0,
+        m15: pool ? parseFloat(pool.attributes.price_change_percentage?.m15 || '0') : 0,
+        m30: pool ? parseFloat(pool.attributes.price_change_percentage?.m30 || '0') : 0,
+        h1: pool ? parseFloat(pool.attributes.price_change_percentage?.h1 || '0') : 0,
+        h6: pool ? parseFloat(pool.attributes.price_change_percentage?.h6 || '0') : 0,
+        h24: pool ? parseFloat(pool.attributes.price_change_percentage?.h24 || '0') : 0,
+      },
+      volume: {
+        m5: pool ? parseFloat(pool.attributes.volume_usd?.m5 || '0') : 0,
+        m15: pool ? parseFloat(pool.attributes.volume_usd?.m15 || '0') : 0,
+        m30: pool ? parseFloat(pool.attributes.volume_usd?.m30 || '0') : 0,
+        h1: pool ? parseFloat(pool.attributes.volume_usd?.h1 || '0') : 0,
+        h6: pool ? parseFloat(pool.attributes.volume_usd?.h6 || '0') : 0,
+        h24: parseFloat(attributes.volume_usd?.h24 || '0'),
+      },
+      transactions: {
+        m5: {
+          buys: pool?.attributes.transactions?.m5?.buys || 0,
+          sells: pool?.attributes.transactions?.m5?.sells || 0,
+          buyers: pool?.attributes.transactions?.m5?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.m5?.sellers ?? null,
+        },
+        m15: {
+          buys: pool?.attributes.transactions?.m15?.buys || 0,
+          sells: pool?.attributes.transactions?.m15?.sells || 0,
+          buyers: pool?.attributes.transactions?.m15?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.m15?.sellers ?? null,
+        },
+        m30: {
+          buys: pool?.attributes.transactions?.m30?.buys || 0,
+          sells: pool?.attributes.transactions?.m30?.sells || 0,
+          buyers: pool?.attributes.transactions?.m30?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.m30?.sellers ?? null,
+        },
+        h1: {
+          buys: pool?.attributes.transactions?.h1?.buys || 0,
+          sells: pool?.attributes.transactions?.h1?.sells || 0,
+          buyers: pool?.attributes.transactions?.h1?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.h1?.sellers ?? null,
+        },
+        h6: {
+          buys: pool?.attributes.transactions?.h6?.buys || 0,
+          sells: pool?.attributes.transactions?.h6?.sells || 0,
+          buyers: pool?.attributes.transactions?.h6?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.h6?.sellers ?? null,
+        },
+        h24: {
+          buys: pool?.attributes.transactions?.h24?.buys || 0,
+          sells: pool?.attributes.transactions?.h24?.sells || 0,
+          buyers: pool?.attributes.transactions?.h24?.buyers ?? null,
+          sellers: pool?.attributes.transactions?.h24?.sellers ?? null,
+        },
+      },
+      fdv: parseFloat(attributes.fdv_usd) || 0,
+      marketCap: attributes.market_cap_usd ? parseFloat(attributes.market_cap_usd) : null,
+      liquidity: parseFloat(attributes.total_reserve_in_usd) || 0,
+      pairAddress: pool?.attributes.address || '',
+      dexId: 'unknown',
+      createdAt: createdTimes.length > 0 ? new Date(Math.min(...createdTimes)) : null,
+      sources: [this.name],
+      lastUpdated: new Date(),
+    };
+  }
+
+  /**
+   * Normalize the top pools included with the token response
+   */
+  normalizePairs(data: GeckoTerminalToken, metadata: TokenMetadata): TokenPair[] {
+    // Relationship ids look like "<network>_<address>", e.g. "solana_<address>"
+    const network = getChainOrDefault(metadata.chain).geckoTerminalId;
+    const stripNetwork = (id?: string) => (id ? id.replace(`${network}_`, '') : null);
+
+    return (data?.included || []).map(pool => {
+      const attributes = pool.attributes;
+      const baseAddress = stripNetwork(pool.relationships?.base_token?.data.id);
+      const quoteAddress = stripNetwork(pool.relationships?.quote_token?.data.id);
+      const tokenIsBase = baseAddress === null || getAddressKey(baseAddress) === getAddressKey(metadata.tokenAddress);
+
+      // Pool names look like "WIF / SOL" or "WIF / SOL 0.25%"
+      const [baseSymbol, quoteSymbol] = (attributes.name || '')
+        .split(' / ')
+        .map(part => part.trim().split(' ')[0] || null);
+
+      const volume = Object.fromEntries(
+        this.windows.map(window => [window, parseFloat(attributes.volume_usd?.[window] || '0') || 0])
+      );
+
+      return {
+        pairAddress: attributes.address,
+        dexId: pool.relationships?.dex?.data.id || 'unknown',
+        sources: [this.name],
+        tokenIsBase,
+        quoteToken: {
+          address: tokenIsBase ? quoteAddress : baseAddress,
+          symbol: (tokenIsBase ? quoteSymbol : baseSymbol) || null,
+        },
+        priceUsd: parseFloat(tokenIsBase ? attributes.base_token_price_usd : attributes.quote_token_price_usd) || 0,
+        liquidityUsd: parseFloat(attributes.reserve_in_usd) || 0,
+        volume,
+        createdAt: attributes.pool_created_at ? new Date(attributes.pool_created_at) : null,
+        url: `https://www.geckoterminal.com/${network}/pools/${attributes.address}`,
+      };
+    });
+  }
+
+  /**
+   * Extract logo, decimals, supply and CoinGecko id from the token attributes
+   */
+  normalizeProfile(data: GeckoTerminalToken, metadata: TokenMetadata): TokenProfile | null {
+    const attributes = data?.data?.attributes;
+    if (!attributes) {
+      return null;
+    }
+
+    const normalizedTotalSupply = parseFloat(attributes.normalized_total_supply);
+
+    return {
+      tokenId: metadata.tokenAddress,
+      name: attributes.name || metadata.name,
+      symbol: attributes.symbol || metadata.symbol,
+      imageUrl: attributes.image_url && attributes.image_url !== 'missing.png' ? attributes.image_url : null,
+      decimals: typeof attributes.decimals === 'number' ? attributes.decimals : null,
+      totalSupply: attributes.total_supply || null,
+      normalizedTotalSupply: isFinite(normalizedTotalSupply) ? normalizedTotalSupply : null,
+      coingeckoId: attributes.coingecko_coin_id || null,
+      source: this.name,
+      updatedAt: new Date(),
+    };
+  }
+}
+
+// Singleton instance
+export const geckoTerminalProvider = new GeckoTerminalProvider();
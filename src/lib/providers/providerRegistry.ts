@@ -0,0 +1,97 @@
+/**
+ * Registry of market data providers - controls which sources are queried
+ */
+
+import { MarketDataProvider, ProviderHealth } from '../../types/provider.js';
+import { dexScreenerProvider } from './dexScreenerProvider.js';
+import { geckoTerminalProvider } from './geckoTerminalProvider.js';
+
+class ProviderRegistry {
+  // Insertion order is merge order: earlier providers take precedence
+  private providers: Map<string, MarketDataProvider> = new Map();
+
+  /**
+   * Register a provider (replaces any provider with the same name)
+   */
+  register(provider: MarketDataProvider): void {
+    this.providers.set(provider.name, provider);
+    console.log(`🔌 [Providers] Registered ${provider.name}`);
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  /**
+   * Apply configuration from a comma-separated list of enabled provider names.
+   * An empty or missing list leaves every registered provider enabled.
+   */
+  configure(enabledList?: string): void {
+    const names = (enabledList || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (names.length === 0) {
+      return;
+    }
+
+    for (const name of names) {
+      if (!this.providers.has(name)) {
+        console.warn(`⚠️  [Providers] Unknown provider in config: ${name}`);
+      }
+    }
+
+    for (const provider of this.providers.values()) {
+      provider.enabled = names.includes(provider.name);
+    }
+
+    console.log(`⚙️  [Providers] Enabled: [${this.getEnabled().map(p => p.name).join(', ')}]`);
+  }
+
+  /**
+   * Enable or disable a provider at runtime
+   */
+  setEnabled(name: string, enabled: boolean): boolean {
+    const provider = this.providers.get(name);
+    if (!provider) return false;
+    provider.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * Get a provider by name
+   */
+  get(name: string): MarketDataProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Get all enabled providers in merge order
+   */
+  getEnabled(): MarketDataProvider[] {
+    return Array.from(this.providers.values()).filter(p => p.enabled);
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getAll(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Get health for all registered providers
+   */
+  getHealth(): ProviderHealth[] {
+    return this.getAll().map(p => p.getHealth());
+  }
+}
+
+// Singleton instance with the built-in providers
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(dexScreenerProvider);
+providerRegistry.register(geckoTerminalProvider);
@@ -0,0 +1,28 @@
+/**
+ * Static reference rate provider - a fixed local rate table, for tests and
+ * offline setups
+ */
+
+import { QuoteCurrency } from '../../types/token.js';
+import { ReferenceRateProvider, ReferenceRates } from '../../types/provider.js';
+
+export class StaticRateProvider implements ReferenceRateProvider {
+  readonly name = 'static';
+  private rates: ReferenceRates;
+
+  /**
+   * @param rates - USD per unit of each currency (e.g. { SOL: 150, EUR: 1.08 })
+   */
+  constructor(rates: ReferenceRates) {
+    this.rates = { ...rates };
+  }
+
+  async fetchRates(currencies: readonly QuoteCurrency[]): Promise<ReferenceRates> {
+    const rates: ReferenceRates = {};
+    for (const currency of currencies) {
+      const rate = this.rates[currency];
+      if (rate !== undefined) rates[currency] = rate;
+    }
+    return rates;
+  }
+}
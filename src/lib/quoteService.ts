@@ -0,0 +1,181 @@
+/**
+ * Quote service - converts USD price, volume and size figures into SOL, BTC,
+ * ETH or a fiat currency using reference rates refreshed by the scheduler
+ */
+
+import { QuoteCurrency, QuotedValues, TimeWindow, TokenData } from '../types/token.js';
+import { ReferenceRateProvider, ReferenceRates } from '../types/provider.js';
+import { coinGeckoRateProvider } from './providers/coinGeckoRateProvider.js';
+import { StaticRateProvider } from './providers/staticRateProvider.js';
+import { ServiceUnavailableError } from './customErrors.js';
+
+export const QUOTE_CURRENCIES: readonly QuoteCurrency[] = ['USD', 'SOL', 'BTC', 'ETH', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD'];
+
+const WINDOWS: readonly TimeWindow[] = ['m5', 'm15', 'm30', 'h1', 'h6', 'h24'];
+
+export interface QuoteConfig {
+  refreshIntervalSeconds: number;
+}
+
+export interface QuoteRatesStatus {
+  provider: string;
+  currencies: readonly QuoteCurrency[];
+  rates: ReferenceRates;
+  updatedAt: Date | null;
+  lastError: string | null;
+}
+
+class QuoteService {
+  private config: QuoteConfig = {
+    refreshIntervalSeconds: 300,
+  };
+  private provider: ReferenceRateProvider = coinGeckoRateProvider;
+  private rates: ReferenceRates = {};
+  private updatedAt: Date | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Update configuration (ignores missing or invalid values)
+   */
+  configure(config: Partial<QuoteConfig>): void {
+    if (config.refreshIntervalSeconds !== undefined && isFinite(config.refreshIntervalSeconds) && config.refreshIntervalSeconds >= 0) {
+      this.config.refreshIntervalSeconds = config.refreshIntervalSeconds;
+    }
+  }
+
+  /**
+   * Replace the reference rate provider. Cached rates are dropped.
+   */
+  setProvider(provider: ReferenceRateProvider): void {
+    this.provider = provider;
+    this.rates = {};
+    this.updatedAt = null;
+    this.lastError = null;
+    console.log(`⚙️  [Quotes] Using ${provider.name} reference rates`);
+  }
+
+  /**
+   * Use a static rate table from a comma-separated list of CURRENCY=usdRate
+   * pairs (e.g. "SOL=150,BTC=65000,EUR=1.08")
+   */
+  useStaticRates(spec: string): void {
+    const rates: ReferenceRates = {};
+    for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+      const [name = '', value = ''] = entry.split('=').map(part => part.trim());
+      const currency = this.parseCurrency(name);
+      const rate = parseFloat(value);
+      if (!currency || !(rate > 0)) {
+        console.warn(`⚠️  [Quotes] Invalid static rate: ${entry}`);
+        continue;
+      }
+      rates[currency] = rate;
+    }
+    this.setProvider(new StaticRateProvider(rates));
+  }
+
+  /**
+   * Refresh rates from the provider when they are older than the refresh
+   * interval (or always when forced). Failures keep the previous rates.
+   */
+  async refreshRates(force: boolean = false): Promise<void> {
+    const age = this.updatedAt ? (Date.now() - this.updatedAt.getTime()) / 1000 : Infinity;
+    if (!force && age < this.config.refreshIntervalSeconds) {
+      return;
+    }
+
+    try {
+      const currencies = QUOTE_CURRENCIES.filter(currency => currency !== 'USD');
+      const rates = await this.provider.fetchRates(currencies);
+      this.rates = { ...this.rates, ...rates };
+      this.updatedAt = new Date();
+      this.lastError = null;
+
+      const missing = currencies.filter(currency => !this.rates[currency]);
+      console.log(`💱 [Quotes] Refreshed ${Object.keys(rates).length} rate(s) from ${this.provider.name}${missing.length > 0 ? ` (missing: ${missing.join(', ')})` : ''}`);
+    } catch (error) {
+      this.lastError = (error as Error).message;
+      console.warn(`⚠️  [Quotes] Failed to refresh rates from ${this.provider.name}: ${this.lastError}`);
+    }
+  }
+
+  /**
+   * Parse a currency code (case-insensitive). Returns null if unsupported.
+   */
+  parseCurrency(value: string): QuoteCurrency | null {
+    const code = value.trim().toUpperCase();
+    return QUOTE_CURRENCIES.includes(code as QuoteCurrency) ? code as QuoteCurrency : null;
+  }
+
+  /**
+   * Parse an optional `quote` query parameter. Returns undefined when not
+   * requested and null when unsupported (including repeated parameters).
+   */
+  parseQuoteParam(value: unknown): QuoteCurrency | null | undefined {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    return typeof value === 'string' ? this.parseCurrency(value) : null;
+  }
+
+  /**
+   * USD per unit of a currency, or null while no rate is available
+   */
+  getRate(currency: QuoteCurrency): number | null {
+    return currency === 'USD' ? 1 : this.rates[currency] ?? null;
+  }
+
+  /**
+   * A token's USD figures converted into a currency, or null while no rate
+   * is available
+   */
+  getQuotedValues(token: TokenData, currency: QuoteCurrency): QuotedValues | null {
+    const rate = this.getRate(currency);
+    if (rate === null) {
+      return null;
+    }
+
+    const convert = (value: number) => value / rate;
+    const volume = {} as Record<TimeWindow, number>;
+    for (const window of WINDOWS) {
+      volume[window] = convert(token.volume[window] || 0);
+    }
+
+    return {
+      currency,
+      rate,
+      rateUpdatedAt: currency === 'USD' ? null : this.updatedAt,
+      price: convert(token.priceUsd),
+      volume,
+      ...(token.d7 && { volume7d: token.d7.volume === null ? null : convert(token.d7.volume) }),
+      fdv: convert(token.fdv),
+      marketCap: token.marketCap === null ? null : convert(token.marketCap),
+      liquidity: convert(token.liquidity),
+    };
+  }
+
+  /**
+   * Attach quoted values to tokens. Throws when no rate is available yet.
+   */
+  attachQuotes(tokens: TokenData[], currency: QuoteCurrency): TokenData[] {
+    if (this.getRate(currency) === null) {
+      throw new ServiceUnavailableError(`Reference rate for ${currency} is not available yet`);
+    }
+    return tokens.map(token => ({ ...token, quote: this.getQuotedValues(token, currency) as QuotedValues }));
+  }
+
+  /**
+   * Get the current rates and provider status
+   */
+  getStatus(): QuoteRatesStatus {
+    return {
+      provider: this.provider.name,
+      currencies: QUOTE_CURRENCIES,
+      rates: { USD: 1, ...this.rates },
+      updatedAt: this.updatedAt,
+      lastError: this.lastError,
+    };
+  }
+}
+
+// Singleton instance
+export const quoteService = new QuoteService();
@@ -6,6 +6,17 @@ import cron from 'node-cron';
 import { tokenAggregationService } from './tokenAggregation.js';
 import { webSocketService } from './websocketService.js';
 import { cacheService } from './cacheService.js';
+import { historyService } from './historyService.js';
+import { dataQualityService } from './dataQualityService.js';
+import { arbitrageService } from './arbitrageService.js';
+import { anomalyService } from './anomalyService.js';
+import { liquidityMonitorService } from './liquidityMonitorService.js';
+import { eventLogService } from './eventLogService.js';
+import { pairsService } from './pairsService.js';
+import { tokenRegistry } from './tokenRegistry.js';
+import { quoteService } from './quoteService.js';
+import { screenService } from './screenService.js';
+import { sevenDayService } from './sevenDayService.js';
 
 class SchedulerService {
   private updateTask: cron.ScheduledTask | null = null;
@@ -65,9 +76,45 @@ class SchedulerService {
       // Use aggregateAllTokens instead of refreshAllTokens to utilize cache
       const tokens = await tokenAggregationService.aggregateAllTokens();
 
+      // Reference rates for quote currencies (only refetched once stale)
+      await quoteService.refreshRates();
+
+      // Persist a time-series snapshot of this tick
+      await historyService.recordSnapshots(tokens);
+
+      // 7d stats from upstream daily candles for tokens without 7 stored days
+      await sevenDayService.backfillFromUpstream(tokens);
+
+      // Score data quality and alert on tokens that dropped below the threshold
+      const assessed = dataQualityService.attachQuality(tokens);
+      const qualityDrops = dataQualityService.detectDrops(assessed);
+
+      // Score volume, price, transactions and liquidity against rolling baselines
+      const anomalies = anomalyService.detect(tokens);
+
+      // Track pool and token liquidity for drains and sell pressure
+      const liquidityDrains = await liquidityMonitorService.check(tokens);
+      await eventLogService.record('liquidity_drain', liquidityDrains);
+
+      // Pools that appeared since the last fetch of each token
+      const newPairs = pairsService.takeNewPairs();
+      await eventLogService.record('new_pair', newPairs);
+
+      // Compare each token's pairs across DEXes for new arbitrage opportunities
+      const opportunities = await arbitrageService.detectNew(tokenRegistry.getAllTokens());
+
       // Broadcast updates via WebSocket
       if (webSocketService.isInitialized()) {
-        await webSocketService.broadcastPriceUpdates(tokens);
+        await webSocketService.broadcastPriceUpdates(assessed);
+        webSocketService.broadcastAnomalies(anomalies);
+        webSocketService.broadcastLiquidityDrains(liquidityDrains);
+        webSocketService.broadcastNewPairs(newPairs);
+        webSocketService.broadcastDataQuality(qualityDrops);
+        webSocketService.broadcastArbitrageOpportunities(opportunities);
+
+        // Tokens entering or leaving saved screens that clients watch
+        const screenMatches = await screenService.detectChanges(webSocketService.getWatchedScreens());
+        webSocketService.broadcastScreenMatches(screenMatches);
       }
 
       const duration = Date.now() - startTime;
@@ -0,0 +1,263 @@
+/**
+ * Screen service - saved screener presets stored per user in MongoDB (kept in
+ * memory when MongoDB is not connected), and enter/exit tracking for screens
+ * watched over WebSocket
+ */
+
+import mongoose from 'mongoose';
+import { Screen, ScreenInput, ScreenMatchEvent } from '../types/token.js';
+import { ScreenModel } from '../models/screen.js';
+import { tokenScreener, FILTER_PARAMS } from './tokenScreener.js';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from './customErrors.js';
+
+const MAX_NAME_LENGTH = 100;
+
+// Token list parameters that are not part of a screen (ignored when saving)
+const IGNORED_PARAMS = ['cursor', 'quote'];
+
+interface FieldError {
+  field: string;
+  message: string;
+  position?: number;
+}
+
+class ScreenService {
+  private screens: Map<string, Screen> = new Map();
+  private isLoaded: boolean = false;
+  // Tokens (id -> symbol) in each watched screen's results at the last check
+  private matches: Map<string, Map<string, string>> = new Map();
+
+  /**
+   * Check if MongoDB is connected
+   */
+  isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Load saved screens from MongoDB
+   */
+  async load(): Promise<void> {
+    if (this.isLoaded) {
+      return;
+    }
+
+    if (!this.isAvailable()) {
+      console.warn('⚠️  [Screens] MongoDB not connected, screens will be kept in memory only');
+    } else {
+      const docs = await ScreenModel.find().lean();
+      for (const { _id, ...doc } of docs) {
+        const screen: Screen = { id: _id.toString(), ...doc };
+        this.screens.set(screen.id, screen);
+      }
+    }
+
+    this.isLoaded = true;
+    console.log(`✅ [Screens] Loaded ${this.screens.size} saved screen(s)`);
+  }
+
+  /**
+   * Get a screen by id
+   */
+  getScreen(id: string): Screen | undefined {
+    return this.screens.get(id);
+  }
+
+  /**
+   * Get one of a user's screens. Throws a NotFoundError for unknown ids and
+   * for other users' screens.
+   */
+  getOwnedScreen(owner: string, id: string): Screen {
+    const screen = this.screens.get(id);
+    if (!screen || screen.owner !== owner) {
+      throw new NotFoundError('Screen not found');
+    }
+    return screen;
+  }
+
+  /**
+   * Get a user's screens, newest first
+   */
+  listScreens(owner: string): Screen[] {
+    return Array.from(this.screens.values())
+      .filter(screen => screen.owner === owner)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Save a screen for a user
+   */
+  async create(owner: string, input: ScreenInput): Promise<Screen> {
+    const { name, filters } = this.assertValid(input);
+    if (this.listScreens(owner).some(screen => screen.name === name)) {
+      throw new ConflictError(`A screen named "${name}" already exists`);
+    }
+
+    let screen: Screen;
+    if (this.isAvailable()) {
+      const { _id, ...doc } = (await ScreenModel.create({ owner, name, filters })).toObject();
+      screen = { id: _id.toString(), ...doc };
+    } else {
+      const now = new Date();
+      screen = { id: new mongoose.Types.ObjectId().toString(), owner, name, filters, createdAt: now, updatedAt: now };
+    }
+
+    this.screens.set(screen.id, screen);
+    console.log(`➕ [Screens] ${owner} saved "${name}"`);
+    return screen;
+  }
+
+  /**
+   * Delete one of a user's screens
+   */
+  async remove(owner: string, id: string): Promise<Screen> {
+    const screen = this.getOwnedScreen(owner, id);
+
+    if (this.isAvailable()) {
+      await ScreenModel.deleteOne({ _id: id });
+    }
+    this.screens.delete(id);
+    this.matches.delete(id);
+    console.log(`➖ [Screens] ${owner} deleted "${screen.name}"`);
+    return screen;
+  }
+
+  /**
+   * Tokens in a screen's results (its first page), as tracked for enter/exit
+   * events. Starts tracking the screen if needed.
+   */
+  async getMatches(id: string): Promise<string[]> {
+    const screen = this.screens.get(id);
+    if (!screen) {
+      throw new NotFoundError('Screen not found');
+    }
+
+    if (!this.matches.has(id)) {
+      this.matches.set(id, await this.getResultSet(screen));
+    }
+    return Array.from(this.matches.get(id)?.keys() || []);
+  }
+
+  /**
+   * Re-run watched screens and report tokens that entered or left their
+   * results since the last check. Screens no longer watched stop being tracked.
+   */
+  async detectChanges(screenIds: string[]): Promise<ScreenMatchEvent[]> {
+    for (const id of this.matches.keys()) {
+      if (!screenIds.includes(id)) {
+        this.matches.delete(id);
+      }
+    }
+
+    const events: ScreenMatchEvent[] = [];
+    for (const id of screenIds) {
+      const screen = this.screens.get(id);
+      if (!screen) continue;
+
+      try {
+        const current = await this.getResultSet(screen);
+        const previous = this.matches.get(id);
+        this.matches.set(id, current);
+        // The first check only sets the baseline
+        if (!previous) continue;
+
+        const timestamp = new Date();
+        let rank = 0;
+        for (const [tokenId, symbol] of current) {
+          rank++;
+          if (!previous.has(tokenId)) {
+            events.push({ screenId: id, screenName: screen.name, action: 'enter', tokenId, symbol, rank, timestamp });
+          }
+        }
+        for (const [tokenId, symbol] of previous) {
+          if (!current.has(tokenId)) {
+            events.push({ screenId: id, screenName: screen.name, action: 'exit', tokenId, symbol, rank: null, timestamp });
+          }
+        }
+      } catch (error) {
+        console.error(`❌ [Screens] Error running screen "${screen.name}":`, error);
+      }
+    }
+
+    if (events.length > 0) {
+      console.log(`🔎 [Screens] ${events.length} enter/exit event(s) across ${screenIds.length} watched screen(s)`);
+    }
+    return events;
+  }
+
+  /**
+   * Tokens (id -> symbol) on the first page of a screen's results, in order
+   */
+  private async getResultSet(screen: Screen): Promise<Map<string, string>> {
+    const filters = tokenScreener.parseFilters(screen.filters);
+    const { matches } = await tokenScreener.screen(filters);
+    const page = tokenScreener.paginate(matches, filters.limit!);
+    return new Map(page.data.map(token => [token.tokenId, token.symbol]));
+  }
+
+  /**
+   * Validate a new screen, throwing a ValidationError listing every bad
+   * field. Returns the name and the filters as strings.
+   */
+  private assertValid(input: ScreenInput): { name: string; filters: Record<string, string> } {
+    const errors: FieldError[] = [];
+
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) {
+      errors.push({ field: 'name', message: 'name is required' });
+    } else if (name.length > MAX_NAME_LENGTH) {
+      errors.push({ field: 'name', message: `name must be at most ${MAX_NAME_LENGTH} characters` });
+    }
+
+    // Filters come as an object or as a saved query string or URL ("/api/tokens?timePeriod=1h&minVolume=50000")
+    const filters: Record<string, string> = {};
+    let entries: Array<[string, unknown]> = [];
+    if (input.filters !== undefined && input.query !== undefined) {
+      errors.push({ field: 'filters', message: 'send either filters or query, not both' });
+    } else if (typeof input.query === 'string') {
+      entries = Array.from(new URLSearchParams(input.query.slice(input.query.indexOf('?') + 1)).entries());
+    } else if (input.query !== undefined) {
+      errors.push({ field: 'query', message: 'query must be a string' });
+    } else if (input.filters !== undefined) {
+      if (typeof input.filters !== 'object' || input.filters === null || Array.isArray(input.filters)) {
+        errors.push({ field: 'filters', message: 'filters must be an object' });
+      } else {
+        entries = Object.entries(input.filters);
+      }
+    }
+
+    for (const [key, value] of entries) {
+      if (IGNORED_PARAMS.includes(key)) {
+        continue;
+      } else if (!FILTER_PARAMS.includes(key)) {
+        errors.push({ field: `filters.${key}`, message: `Unknown filter. Expected one of: ${FILTER_PARAMS.join(', ')}` });
+      } else if (typeof value !== 'string' && typeof value !== 'number') {
+        errors.push({ field: `filters.${key}`, message: 'must be a string or a number' });
+      } else {
+        filters[key] = String(value);
+      }
+    }
+
+    // Check the values with the token list parser
+    try {
+      tokenScreener.parseFilters(filters);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        // Filter expression errors keep their position
+        errors.push(...(error.errors as FieldError[]).map(entry => ({ ...entry, field: `filters.${entry.field}` })));
+      } else if (error instanceof BadRequestError) {
+        errors.push({ field: 'filters', message: error.message });
+      } else {
+        throw error;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid screen', errors);
+    }
+    return { name, filters };
+  }
+}
+
+// Singleton instance
+export const screenService = new ScreenService();
@@ -0,0 +1,266 @@
+/**
+ * Seven day service - computes 7d volume, price change and transactions
+ */
+
+import { TokenData, SevenDayStats } from '../types/token.js';
+import { TokenSnapshotModel } from '../models/tokenSnapshot.js';
+import { historyService } from './historyService.js';
+import { candleService } from './candleService.js';
+import { geckoTerminalProvider } from './providers/geckoTerminalProvider.js';
+import { getTokenKey } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS = 7;
+
+interface DayBucket {
+  _id: { tokenId: string; chainId: string; day: number };
+  volume: number;
+  buys: number;
+  sells: number;
+  firstPrice: number;
+  firstTimestamp: Date;
+}
+
+class SevenDayService {
+  // Keyed by token key (chain + address, see getTokenKey)
+  private cache: Map<string, { stats: SevenDayStats; timestamp: number }> = new Map();
+  private readonly CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+  // Stats backfilled from upstream daily candles by the scheduler
+  private upstream: Map<string, { stats: SevenDayStats; startPrice: number; timestamp: number }> = new Map();
+  private readonly UPSTREAM_TTL = 60 * 60 * 1000; // 1 hour
+  // GeckoTerminal requests kept in reserve for the rest of the scheduler tick
+  private readonly UPSTREAM_RESERVE = 10;
+  // Tokens backfilled from upstream per scheduler tick
+  private readonly BACKFILL_PER_RUN = 3;
+
+  /**
+   * Return copies of the tokens with `d7` populated. Never calls upstream:
+   * tokens without 7 stored days use stats backfilled by the scheduler, or
+   * are reported as unavailable until the backfill reaches them.
+   */
+  async attachSevenDayStats(tokens: TokenData[]): Promise<TokenData[]> {
+    const now = Date.now();
+    const stats = new Map<string, SevenDayStats>();
+    const uncached: TokenData[] = [];
+
+    for (const token of tokens) {
+      const cached = this.cache.get(this.getKey(token));
+      if (cached && now - cached.timestamp < this.CACHE_TTL) {
+        stats.set(this.getKey(token), cached.stats);
+      } else {
+        uncached.push(token);
+      }
+    }
+
+    if (uncached.length > 0) {
+      const computed = await this.computeFromSnapshots(uncached);
+
+      for (const token of uncached) {
+        const key = this.getKey(token);
+        let tokenStats = computed.get(key) || this.unavailable(0, 'No stored history');
+        if (!tokenStats.available) {
+          tokenStats = this.getUpstreamStats(token) || {
+            ...tokenStats,
+            reason: `${tokenStats.reason}; upstream backfill pending`,
+          };
+        }
+        stats.set(key, tokenStats);
+        this.cache.set(key, { stats: tokenStats, timestamp: now });
+      }
+    }
+
+    return tokens.map(token => ({ ...token, d7: stats.get(this.getKey(token)) as SevenDayStats }));
+  }
+
+  /**
+   * Backfill 7d stats from upstream daily candles for tokens without 7 stored
+   * days (run by the scheduler, a few tokens per tick)
+   */
+  async backfillFromUpstream(tokens: TokenData[]): Promise<void> {
+    const now = Date.now();
+    const candidates = tokens.filter(token => {
+      const backfilled = this.upstream.get(this.getKey(token));
+      const cached = this.cache.get(this.getKey(token));
+      return !(backfilled && now - backfilled.timestamp < this.UPSTREAM_TTL) &&
+        !(cached?.stats.source === 'snapshots' && now - cached.timestamp < this.CACHE_TTL);
+    });
+    if (candidates.length === 0) {
+      return;
+    }
+
+    let computed: Map<string, SevenDayStats>;
+    try {
+      computed = await this.computeFromSnapshots(candidates);
+    } catch (error) {
+      console.error('❌ [7d] Failed to read stored history for the backfill:', error);
+      return;
+    }
+    const missing = candidates.filter(token => !computed.get(this.getKey(token))?.available);
+
+    let backfilled = 0;
+    for (const token of missing.slice(0, this.BACKFILL_PER_RUN)) {
+      if (!geckoTerminalProvider.canServeRequest(this.UPSTREAM_RESERVE)) {
+        break;
+      }
+      const result = await this.computeFromUpstream(token);
+      if (result) {
+        this.upstream.set(this.getKey(token), { ...result, timestamp: now });
+        // Let the next request pick up the backfilled stats
+        this.cache.delete(this.getKey(token));
+        backfilled++;
+      }
+    }
+
+    if (missing.length > 0) {
+      console.log(`📅 [7d] Backfilled ${backfilled} token(s) from upstream daily candles (${missing.length} without 7 stored days)`);
+    }
+  }
+
+  /**
+   * Upstream stats backfilled for a token, with the price change updated to
+   * the current price
+   */
+  private getUpstreamStats(token: TokenData): SevenDayStats | null {
+    const backfilled = this.upstream.get(this.getKey(token));
+    if (!backfilled || Date.now() - backfilled.timestamp >= this.UPSTREAM_TTL) {
+      return null;
+    }
+    const { stats, startPrice } = backfilled;
+    return { ...stats, priceChange: startPrice > 0 ? ((token.priceUsd - startPrice) / startPrice) * 100 : null };
+  }
+
+  /**
+   * Cache key for a token's stats
+   */
+  private getKey(token: TokenData): string {
+    return getTokenKey(token.chainId, token.tokenId);
+  }
+
+  /**
+   * Build a stats object that reports missing data
+   */
+  private unavailable(coverageHours: number, reason: string): SevenDayStats {
+    return {
+      available: false,
+      source: null,
+      volume: null,
+      priceChange: null,
+      transactions: null,
+      coverageHours,
+      reason,
+    };
+  }
+
+  /**
+   * Compute 7d stats from snapshots by summing the rolling 24h window of each
+   * of the last seven days
+   */
+  private async computeFromSnapshots(tokens: TokenData[]): Promise<Map<string, SevenDayStats>> {
+    const results = new Map<string, SevenDayStats>();
+    if (!historyService.isAvailable()) {
+      return results;
+    }
+
+    const now = new Date();
+    const buckets = await TokenSnapshotModel.aggregate<DayBucket>([
+      {
+        $match: {
+          tokenId: { $in: tokens.map(t => t.tokenId) },
+          timestamp: { $gte: new Date(now.getTime() - DAYS * DAY_MS) },
+        },
+      },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: {
+            tokenId: '$tokenId',
+            // Snapshots stored without a chain belong to the default chain
+            chainId: { $ifNull: ['$chainId', DEFAULT_CHAIN] },
+            day: { $floor: { $divide: [{ $subtract: [now, '$timestamp'] }, DAY_MS] } },
+          },
+          volume: { $last: '$volume.h24' },
+          buys: { $last: '$transactions.h24.buys' },
+          sells: { $last: '$transactions.h24.sells' },
+          firstPrice: { $first: '$priceUsd' },
+          firstTimestamp: { $first: '$timestamp' },
+        },
+      },
+    ]);
+
+    const byToken = new Map<string, DayBucket[]>();
+    for (const bucket of buckets) {
+      const key = getTokenKey(bucket._id.chainId, bucket._id.tokenId);
+      const list = byToken.get(key) || [];
+      list.push(bucket);
+      byToken.set(key, list);
+    }
+
+    for (const token of tokens) {
+      const key = this.getKey(token);
+      const days = byToken.get(key) || [];
+      const oldest = days.reduce<Date | null>(
+        (min, d) => (!min || d.firstTimestamp < min ? d.firstTimestamp : min),
+        null
+      );
+      const coverageHours = oldest ? Math.floor((now.getTime() - new Date(oldest).getTime()) / (60 * 60 * 1000)) : 0;
+
+      const covered = new Set(days.map(d => d._id.day));
+      const complete = Array.from({ length: DAYS }, (_, day) => day).every(day => covered.has(day));
+      if (!complete) {
+        results.set(key, this.unavailable(coverageHours, `Stored history covers ${coverageHours}h of 168h`));
+        continue;
+      }
+
+      const window = days.filter(d => d._id.day < DAYS);
+      const oldestDay = window.find(d => d._id.day === DAYS - 1);
+      const startPrice = oldestDay?.firstPrice || 0;
+
+      results.set(key, {
+        available: true,
+        source: 'snapshots',
+        volume: window.reduce((sum, d) => sum + (d.volume || 0), 0),
+        priceChange: startPrice > 0 ? ((token.priceUsd - startPrice) / startPrice) * 100 : null,
+        transactions: {
+          buys: window.reduce((sum, d) => sum + (d.buys || 0), 0),
+          sells: window.reduce((sum, d) => sum + (d.sells || 0), 0),
+        },
+        coverageHours,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Compute 7d stats from GeckoTerminal daily candles (no transaction counts),
+   * with the open price of the first day
+   */
+  private async computeFromUpstream(token: TokenData): Promise<{ stats: SevenDayStats; startPrice: number } | null> {
+    try {
+      // Background job: use the provider's own retry policy
+      const { source, candles } = await candleService.getCandles(this.getKey(token), '1d', DAYS, {});
+      if (source !== 'geckoterminal' || candles.length < DAYS || !candles[0]) {
+        return null;
+      }
+
+      const startPrice = candles[0].open;
+      const stats: SevenDayStats = {
+        available: true,
+        source: 'geckoterminal',
+        volume: candles.reduce((sum, c) => sum + c.volume, 0),
+        priceChange: startPrice > 0 ? ((token.priceUsd - startPrice) / startPrice) * 100 : null,
+        transactions: null,
+        coverageHours: DAYS * 24,
+        reason: 'Transaction counts are not available from upstream daily candles',
+      };
+      return { stats, startPrice };
+    } catch (error) {
+      console.error(`⚠️  [7d] Upstream 7d data failed for ${token.tokenId}:`, error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const sevenDayService = new SevenDayService();
@@ -0,0 +1,222 @@
+/**
+ * Source merger - resolves each token field from multiple providers using
+ * configurable strategies and records where every value came from
+ */
+
+import { FieldProvenance, TimeWindow, TokenData } from '../types/token.js';
+import { FieldMergeConfig, MergeField, MergeStrategy } from '../types/provider.js';
+
+export const TIME_WINDOWS: TimeWindow[] = ['m5', 'm15', 'm30', 'h1', 'h6', 'h24'];
+
+const MERGE_STRATEGIES: MergeStrategy[] = ['average', 'median', 'liquidity-weighted', 'freshest', 'prefer-source'];
+
+// Defaults keep the original behaviour: prices and volumes are averaged,
+// liquidity comes from GeckoTerminal and everything else from the first source
+const DEFAULT_CONFIG: Record<MergeField, FieldMergeConfig> = {
+  priceUsd: { strategy: 'average' },
+  priceNative: { strategy: 'prefer-source' },
+  priceChange: { strategy: 'prefer-source' },
+  volume: { strategy: 'average' },
+  transactions: { strategy: 'prefer-source' },
+  liquidity: { strategy: 'prefer-source', preferredSources: ['geckoterminal'] },
+  fdv: { strategy: 'prefer-source' },
+  marketCap: { strategy: 'prefer-source' },
+};
+
+// One provider's normalized data for a token
+export interface NormalizedSource {
+  name: string;
+  data: Partial<TokenData>;
+  fetchedAt: Date;
+  windows: readonly TimeWindow[];
+}
+
+// A single reported value competing for a field
+interface Candidate {
+  source: string;
+  value: number;
+  fetchedAt: Date;
+  liquidity: number;
+}
+
+// Fields merged by the source merger
+export type MergedFields = Pick<
+  TokenData,
+  'priceUsd' | 'priceNative' | 'priceChange' | 'volume' | 'transactions' | 'liquidity' | 'fdv' | 'marketCap'
+>;
+
+class SourceMerger {
+  private config: Record<MergeField, FieldMergeConfig> = { ...DEFAULT_CONFIG };
+
+  /**
+   * Apply configuration from a spec such as
+   * "priceUsd=median,liquidity=prefer-source:geckoterminal|dexscreener"
+   */
+  configure(spec?: string): void {
+    const entries = (spec || '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+    for (const entry of entries) {
+      const [field, value = ''] = entry.split('=').map(part => part.trim());
+      const [strategy, preferred] = value.split(':');
+
+      if (!field || !(field in DEFAULT_CONFIG)) {
+        console.warn(`⚠️  [Merge] Unknown field in merge config: ${field}`);
+        continue;
+      }
+      if (!MERGE_STRATEGIES.includes(strategy as MergeStrategy)) {
+        console.warn(`⚠️  [Merge] Unknown strategy for ${field}: ${strategy}`);
+        continue;
+      }
+
+      this.setStrategy(field as MergeField, {
+        strategy: strategy as MergeStrategy,
+        ...(preferred && { preferredSources: preferred.split('|').map(s => s.trim().toLowerCase()) }),
+      });
+    }
+
+    if (entries.length > 0) {
+      console.log(`⚙️  [Merge] Strategies: ${JSON.stringify(this.config)}`);
+    }
+  }
+
+  /**
+   * Set the strategy for a field
+   */
+  setStrategy(field: MergeField, config: FieldMergeConfig): void {
+    this.config[field] = config;
+  }
+
+  /**
+   * Get the current strategy configuration
+   */
+  getConfig(): Record<MergeField, FieldMergeConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Merge normalized sources (in registry order) into the shared fields
+   */
+  merge(sources: NormalizedSource[]): { fields: MergedFields; provenance: Record<string, FieldProvenance> } {
+    const provenance: Record<string, FieldProvenance> = {};
+
+    const resolveField = (
+      path: string,
+      field: MergeField,
+      pick: (data: Partial<TokenData>) => number | null | undefined,
+      options: { window?: TimeWindow; positiveOnly?: boolean } = {}
+    ): number | null => {
+      const candidates: Candidate[] = [];
+      for (const source of sources) {
+        if (options.window && !source.windows.includes(options.window)) continue;
+        const value = pick(source.data);
+        if (typeof value !== 'number' || !isFinite(value)) continue;
+        if (options.positiveOnly && value <= 0) continue;
+        candidates.push({
+          source: source.name,
+          value,
+          fetchedAt: source.fetchedAt,
+          liquidity: source.data.liquidity || 0,
+        });
+      }
+
+      if (candidates.length === 0) return null;
+
+      const config = this.config[field];
+      const resolved = this.resolve(config, candidates);
+      provenance[path] = {
+        strategy: config.strategy,
+        sources: resolved.sources,
+        reported: Object.fromEntries(candidates.map(c => [c.source, c.value])),
+      };
+      return resolved.value;
+    };
+
+    const priceChange = {} as TokenData['priceChange'];
+    const volume = {} as TokenData['volume'];
+    const transactions = {} as TokenData['transactions'];
+
+    for (const window of TIME_WINDOWS) {
+      priceChange[window] = resolveField(`priceChange.${window}`, 'priceChange', d => d.priceChange?.[window], { window }) ?? 0;
+      volume[window] = resolveField(`volume.${window}`, 'volume', d => d.volume?.[window], { window }) ?? 0;
+      const buyers = resolveField(`transactions.${window}.buyers`, 'transactions', d => d.transactions?.[window]?.buyers, { window });
+      const sellers = resolveField(`transactions.${window}.sellers`, 'transactions', d => d.transactions?.[window]?.sellers, { window });
+      transactions[window] = {
+        buys: Math.round(resolveField(`transactions.${window}.buys`, 'transactions', d => d.transactions?.[window]?.buys, { window }) ?? 0),
+        sells: Math.round(resolveField(`transactions.${window}.sells`, 'transactions', d => d.transactions?.[window]?.sells, { window }) ?? 0),
+        // Unique trader counts stay null when no source reports them
+        buyers: buyers === null ? null : Math.round(buyers),
+        sellers: sellers === null ? null : Math.round(sellers),
+      };
+    }
+
+    const fields: MergedFields = {
+      priceUsd: resolveField('priceUsd', 'priceUsd', d => d.priceUsd, { positiveOnly: true }) ?? 0,
+      priceNative: resolveField('priceNative', 'priceNative', d => d.priceNative, { positiveOnly: true }) ?? 0,
+      priceChange,
+      volume,
+      transactions,
+      liquidity: resolveField('liquidity', 'liquidity', d => d.liquidity, { positiveOnly: true }) ?? 0,
+      fdv: resolveField('fdv', 'fdv', d => d.fdv, { positiveOnly: true }) ?? 0,
+      marketCap: resolveField('marketCap', 'marketCap', d => d.marketCap, { positiveOnly: true }),
+    };
+
+    return { fields, provenance };
+  }
+
+  /**
+   * Resolve competing values with a strategy
+   */
+  private resolve(config: FieldMergeConfig, candidates: Candidate[]): { value: number; sources: string[] } {
+    const allSources = candidates.map(c => c.source);
+    const average = candidates.reduce((sum, c) => sum + c.value, 0) / candidates.length;
+
+    switch (config.strategy) {
+      case 'median': {
+        const sorted = [...candidates].sort((a, b) => a.value - b.value);
+        const mid = Math.floor(sorted.length / 2);
+        const middle = sorted.length % 2 === 0 ? sorted.slice(mid - 1, mid + 1) : sorted.slice(mid, mid + 1);
+        return {
+          value: middle.reduce((sum, c) => sum + c.value, 0) / middle.length,
+          sources: middle.map(c => c.source),
+        };
+      }
+
+      case 'liquidity-weighted': {
+        const totalLiquidity = candidates.reduce((sum, c) => sum + c.liquidity, 0);
+        if (totalLiquidity <= 0) {
+          return { value: average, sources: allSources };
+        }
+        return {
+          value: candidates.reduce((sum, c) => sum + c.value * c.liquidity, 0) / totalLiquidity,
+          sources: candidates.filter(c => c.liquidity > 0).map(c => c.source),
+        };
+      }
+
+      case 'freshest': {
+        const freshest = candidates.reduce((prev, current) =>
+          current.fetchedAt.getTime() > prev.fetchedAt.getTime() ? current : prev
+        );
+        return { value: freshest.value, sources: [freshest.source] };
+      }
+
+      case 'prefer-source': {
+        const preferred = config.preferredSources || [];
+        const rank = (source: string) => {
+          const index = preferred.indexOf(source);
+          return index === -1 ? preferred.length : index;
+        };
+        const chosen = candidates.reduce((prev, current) =>
+          rank(current.source) < rank(prev.source) ? current : prev
+        );
+        return { value: chosen.value, sources: [chosen.source] };
+      }
+
+      case 'average':
+      default:
+        return { value: average, sources: allSources };
+    }
+  }
+}
+
+// Singleton instance
+export const sourceMerger = new SourceMerger();
@@ -2,27 +2,35 @@
  * Token aggregation service - merges data from multiple DEX sources
  */
 
-import { TokenData, DexScreenerPair, GeckoTerminalToken, TokenMetadata } from '../types/token.js';
+import { TokenData, TokenMetadata } from '../types/token.js';
+import { ProviderResults } from '../types/provider.js';
 import { apiClient } from './apiClients.js';
+import { providerRegistry } from './providers/providerRegistry.js';
+import { sourceMerger, NormalizedSource } from './sourceMerger.js';
 import { cacheService } from './cacheService.js';
-import { csvParser } from './csvParser.js';
+import { pairsService } from './pairsService.js';
+import { profileService } from './profileService.js';
+import { tokenRegistry } from './tokenRegistry.js';
+import { getTradeMetrics } from './tradeMetrics.js';
+import { getTokenKey } from './addressValidation.js';
+import { getChainOrDefault } from './chains.js';
 
 class TokenAggregationService {
-  // Cache recently merged data in memory to avoid redundant processing
+  // Cache recently merged data in memory (by token key) to avoid redundant processing
   private memoryCache: Map<string, { data: TokenData; timestamp: number }> = new Map();
   private readonly MEMORY_CACHE_TTL = 30000; // 30 seconds in-memory cache
 
   /**
    * Get from memory cache if available and not expired
    */
-  private getFromMemoryCache(address: string): TokenData | null {
-    const cached = this.memoryCache.get(address);
+  private getFromMemoryCache(key: string): TokenData | null {
+    const cached = this.memoryCache.get(key);
     if (cached && Date.now() - cached.timestamp < this.MEMORY_CACHE_TTL) {
       return cached.data;
     }
     // Clean up expired entry
     if (cached) {
-      this.memoryCache.delete(address);
+      this.memoryCache.delete(key);
     }
     return null;
   }
@@ -30,8 +38,8 @@ class TokenAggregationService {
   /**
    * Store in memory cache
    */
-  private setMemoryCache(address: string, data: TokenData): void {
-    this.memoryCache.set(address, { data, timestamp: Date.now() });
+  private setMemoryCache(key: string, data: TokenData): void {
+    this.memoryCache.set(key, { data, timestamp: Date.now() });
     
     // Limit memory cache size to 100 entries
     if (this.memoryCache.size > 100) {
@@ -40,203 +48,111 @@ class TokenAggregationService {
     }
   }
   /**
-   * Normalize DexScreener data to TokenData format
-   */
-  private normalizeDexScreenerData(
-    pair: DexScreenerPair,
-    metadata: TokenMetadata
-  ): Partial<TokenData> {
-    return {
-      tokenId: metadata.tokenAddress,
-      name: metadata.name,
-      symbol: metadata.symbol,
-      chainId: pair.chainId,
-      priceUsd: parseFloat(pair.priceUsd) || 0,
-      priceNative: parseFloat(pair.priceNative) || 0,
-      priceChange: {
-        h1: pair.priceChange?.h1 || 0,
-        h6: pair.priceChange?.h6 || 0,
-        h24: pair.priceChange?.h24 || 0,
-      },
-      volume: {
-        h1: pair.volume?.h1 || 0,
-        h6: pair.volume?.h6 || 0,
-        h24: pair.volume?.h24 || 0,
-      },
-      transactions: {
-        h1: {
-          buys: pair.txns?.h1?.buys || 0,
-          sells: pair.txns?.h1?.sells || 0,
-        },
-        h6: {
-          buys: pair.txns?.h6?.buys || 0,
-          sells: pair.txns?.h6?.sells || 0,
-        },
-        h24: {
-          buys: pair.txns?.h24?.buys || 0,
-          sells: pair.txns?.h24?.sells || 0,
-        },
-      },
-      fdv: pair.fdv || 0,
-      marketCap: pair.marketCap || null,
-      liquidity: 0, // Not provided by DexScreener
-      pairAddress: pair.pairAddress,
-      dexId: pair.dexId,
-      sources: ['dexscreener'],
-      lastUpdated: new Date(),
-    };
-  }
-
-  /**
-   * Normalize GeckoTerminal data to TokenData format
-   */
-  private normalizeGeckoTerminalData(
-    data: GeckoTerminalToken,
-    metadata: TokenMetadata
-  ): Partial<TokenData> {
-    const pool = data.included?.[0];
-    const attributes = data.data.attributes;
-
-    return {
-      tokenId: metadata.tokenAddress,
-      name: metadata.name,
-      symbol: metadata.symbol,
-      chainId: 'solana',
-      priceUsd: parseFloat(attributes.price_usd) || 0,
-      priceNative: pool ? parseFloat(pool.attributes.base_token_price_native_currency) : 0,
-      priceChange: {
-        h1: pool ? parseFloat(pool.attributes.price_change_percentage?.h1 || '0') : 0,
-        h6: pool ? parseFloat(pool.attributes.price_change_percentage?.h6 || '0') : 0,
-        h24: pool ? parseFloat(pool.attributes.price_change_percentage?.h24 || '0') : 0,
-      },
-      volume: {
-        h1: pool ? parseFloat(pool.attributes.volume_usd?.h1 || '0') : 0,
-        h6: pool ? parseFloat(pool.attributes.volume_usd?.h6 || '0') : 0,
-        h24: parseFloat(attributes.volume_usd?.h24 || '0'),
-      },
-      transactions: {
-        h1: {
-          buys: pool?.attributes.transactions?.h1?.buys || 0,
-          sells: pool?.attributes.transactions?.h1?.sells || 0,
-        },
-        h6: {
-          buys: pool?.attributes.transactions?.h6?.buys || 0,
-          sells: pool?.attributes.transactions?.h6?.sells || 0,
-        },
-        h24: {
-          buys: pool?.attributes.transactions?.h24?.buys || 0,
-          sells: pool?.attributes.transactions?.h24?.sells || 0,
-        },
-      },
-      fdv: parseFloat(attributes.fdv_usd) || 0,
-      marketCap: attributes.market_cap_usd ? parseFloat(attributes.market_cap_usd) : null,
-      liquidity: parseFloat(attributes.total_reserve_in_usd) || 0,
-      pairAddress: pool?.attributes.address || '',
-      dexId: 'unknown',
-      sources: ['geckoterminal'],
-      lastUpdated: new Date(),
-    };
-  }
-
-  /**
-   * Merge data from multiple sources intelligently
+   * Merge normalized data from every provider that returned something.
+   * Identity fields (pair, DEX, chain) come from the first source in registry
+   * order; numeric fields are resolved by the configured merge strategies.
    */
   private mergeTokenData(
-    dexScreenerPairs: DexScreenerPair[],
-    geckoTerminalData: GeckoTerminalToken | null,
+    providerResults: ProviderResults,
     metadata: TokenMetadata
   ): TokenData {
     const mergedData: Partial<TokenData> = {
       tokenId: metadata.tokenAddress,
       name: metadata.name,
       symbol: metadata.symbol,
-      chainId: 'solana',
+      chainId: getChainOrDefault(metadata.chain).id,
       sources: [],
       lastUpdated: new Date(),
     };
 
-    // Merge DexScreener data (take the first pair with most volume)
-    if (dexScreenerPairs && dexScreenerPairs.length > 0) {
-      const bestPair = dexScreenerPairs.reduce((prev, current) =>
-        (current.volume?.h24 || 0) > (prev.volume?.h24 || 0) ? current : prev
-      );
-      const dexData = this.normalizeDexScreenerData(bestPair, metadata);
-      Object.assign(mergedData, dexData);
+    const sources: NormalizedSource[] = [];
+    for (const provider of providerRegistry.getEnabled()) {
+      const result = providerResults.get(provider.name);
+      if (!result || result.data === null || result.data === undefined) continue;
+
+      const normalized = provider.normalize(result.data, metadata);
+      if (!normalized) continue;
+
+      sources.push({
+        name: provider.name,
+        data: normalized,
+        fetchedAt: result.fetchedAt,
+        windows: provider.windows,
+      });
     }
 
-    // Merge GeckoTerminal data (prefer if available, or average with DexScreener)
-    if (geckoTerminalData) {
-      const geckoData = this.normalizeGeckoTerminalData(geckoTerminalData, metadata);
-      
-      // If we have data from both sources, average the prices and volumes
-      if (mergedData.sources && mergedData.sources.length > 0) {
-        mergedData.priceUsd = ((mergedData.priceUsd || 0) + (geckoData.priceUsd || 0)) / 2;
-        mergedData.volume = {
-          h1: ((mergedData.volume?.h1 || 0) + (geckoData.volume?.h1 || 0)) / 2,
-          h6: ((mergedData.volume?.h6 || 0) + (geckoData.volume?.h6 || 0)) / 2,
-          h24: ((mergedData.volume?.h24 || 0) + (geckoData.volume?.h24 || 0)) / 2,
-        };
-        if (geckoData.liquidity !== undefined) {
-          mergedData.liquidity = geckoData.liquidity;
-        }
-        mergedData.sources?.push('geckoterminal');
-      } else {
-        // Use GeckoTerminal data if DexScreener is not available
-        Object.assign(mergedData, geckoData);
-      }
+    const [primary] = sources;
+    if (!primary) {
+      return mergedData as TokenData;
     }
 
+    // The token is as old as the oldest pool any source knows about
+    const createdTimes = sources
+      .map(source => (source.data.createdAt ? new Date(source.data.createdAt).getTime() : NaN))
+      .filter(time => isFinite(time));
+    const createdAt = createdTimes.length > 0 ? new Date(Math.min(...createdTimes)) : null;
+
+    const { fields, provenance } = sourceMerger.merge(sources);
+    Object.assign(mergedData, primary.data, fields, {
+      sources: sources.map(source => source.name),
+      provenance,
+      tradeMetrics: getTradeMetrics(fields),
+      createdAt,
+      ageHours: createdAt ? (Date.now() - createdAt.getTime()) / (60 * 60 * 1000) : null,
+      lastUpdated: new Date(),
+    });
+
     return mergedData as TokenData;
   }
 
   /**
-   * Fetch and aggregate a single token
+   * Fetch and aggregate a single token (by address or "chain:address")
    */
-  async aggregateToken(tokenAddress: string): Promise<TokenData | null> {
+  async aggregateToken(tokenId: string): Promise<TokenData | null> {
     try {
-      console.log(`\n🔄 [Aggregation] Starting aggregation for token: ${tokenAddress}`);
-      
+      console.log(`\n🔄 [Aggregation] Starting aggregation for token: ${tokenId}`);
+
+      // Get metadata from the registry
+      const metadata = tokenRegistry.getToken(tokenId);
+      if (!metadata) {
+        console.error(`❌ [Aggregation] Token ${tokenId} not found in registry`);
+        return null;
+      }
+
+      const tokenAddress = metadata.tokenAddress;
+      const key = getTokenKey(metadata.chain, tokenAddress);
+
       // Check memory cache first (fastest)
-      const memCached = this.getFromMemoryCache(tokenAddress);
+      const memCached = this.getFromMemoryCache(key);
       if (memCached) {
-        console.log(`⚡ [Aggregation] Using in-memory cache for ${tokenAddress}`);
+        console.log(`⚡ [Aggregation] Using in-memory cache for ${key}`);
         return memCached;
       }
 
       // Check Redis cache
-      const cached = await cacheService.getToken(tokenAddress);
+      const cached = await cacheService.getToken(key);
       if (cached) {
-        console.log(`✅ [Aggregation] Using Redis cache for ${tokenAddress}`);
+        console.log(`✅ [Aggregation] Using Redis cache for ${key}`);
         // Store in memory cache for faster subsequent access
-        this.setMemoryCache(tokenAddress, cached);
+        this.setMemoryCache(key, cached);
         return cached;
       }
 
-      console.log(`⚠️  [Aggregation] Cache miss - fetching fresh data for ${tokenAddress}`);
+      console.log(`⚠️  [Aggregation] Cache miss - fetching fresh data for ${key}`);
+      console.log(`📋 [Aggregation] Token metadata: ${metadata.name} (${metadata.symbol}) on ${metadata.chain}`);
 
-      // Get metadata from CSV
-      const metadata = csvParser.getToken(tokenAddress);
-      if (!metadata) {
-        console.error(`❌ [Aggregation] Token ${tokenAddress} not found in CSV`);
-        return null;
-      }
+      // Fetch from every enabled provider in parallel (faster)
+      const providerNames = providerRegistry.getEnabled().map(p => p.name);
+      console.log(`🌐 [Aggregation] Fetching from ${providerNames.join(', ')}...`);
+      const providerResults = await apiClient.fetchToken(tokenAddress, metadata.chain);
 
-      console.log(`📋 [Aggregation] Token metadata: ${metadata.name} (${metadata.symbol})`);
-
-      // Fetch from both APIs in parallel (faster)
-      console.log(`🌐 [Aggregation] Fetching from DexScreener and GeckoTerminal...`);
-      const [dexScreenerPairs, geckoTerminalData] = await Promise.allSettled([
-        apiClient.fetchFromDexScreener(tokenAddress),
-        apiClient.fetchFromGeckoTerminal(tokenAddress),
-      ]);
-
-      const dexData = dexScreenerPairs.status === 'fulfilled' ? dexScreenerPairs.value : [];
-      const geckoData = geckoTerminalData.status === 'fulfilled' ? geckoTerminalData.value : null;
-
-      console.log(`📊 [Aggregation] API Results - DexScreener: ${dexData.length} pair(s), GeckoTerminal: ${geckoData ? '✓' : '✗'}`);
+      const status = providerNames
+        .map(name => `${name}: ${providerResults.get(name) ? '✓' : '✗'}`)
+        .join(', ');
+      console.log(`📊 [Aggregation] API Results - ${status}`);
 
       // Merge data - even if only ONE source has data, we'll use it!
-      const tokenData = this.mergeTokenData(dexData, geckoData, metadata);
+      const tokenData = this.mergeTokenData(providerResults, metadata);
 
       // Only cache and return if we have at least ONE source of data
       if (!tokenData.sources || tokenData.sources.length === 0) {
@@ -248,13 +164,15 @@ class TokenAggregationService {
       console.log(`💰 [Aggregation] Price: $${tokenData.priceUsd.toFixed(8)}, Vol 24h: $${tokenData.volume.h24.toFixed(2)}`);
 
       // Cache in both Redis and memory
-      await cacheService.setToken(tokenAddress, tokenData, 300);
-      this.setMemoryCache(tokenAddress, tokenData);
+      await cacheService.setToken(key, tokenData, 300);
+      await pairsService.recordPairs(providerResults, metadata, 300);
+      await profileService.recordProfile(providerResults, metadata);
+      this.setMemoryCache(key, tokenData);
       console.log(`📦 [Aggregation] Cached in Redis + Memory (${tokenData.sources.length} source(s))`);
 
       return tokenData;
     } catch (error) {
-      console.error(`❌ [Aggregation] Error aggregating token ${tokenAddress}:`, error);
+      console.error(`❌ [Aggregation] Error aggregating token ${tokenId}:`, error);
       return null;
     }
   }
@@ -275,8 +193,8 @@ class TokenAggregationService {
 
       console.log('⚠️  [Aggregation] Cache miss - fetching fresh data for all tokens...');
 
-      const allTokens = csvParser.getAllTokens();
-      console.log(`📋 [Aggregation] Found ${allTokens.length} tokens in CSV`);
+      const allTokens = tokenRegistry.getAllTokens();
+      console.log(`📋 [Aggregation] Found ${allTokens.length} tokens in registry`);
       
       // First, check individual token caches to minimize API calls
       const results: TokenData[] = [];
@@ -284,7 +202,7 @@ class TokenAggregationService {
 
       console.log(`\n🔍 [Aggregation] Checking individual token caches...`);
       for (const token of allTokens) {
-        const cached = await cacheService.getToken(token.tokenAddress);
+        const cached = await cacheService.getToken(getTokenKey(token.chain, token.tokenAddress));
         if (cached) {
           results.push(cached);
           console.log(`✅ [Cache HIT] ${token.symbol}`);
@@ -317,28 +235,26 @@ class TokenAggregationService {
           
           console.log(`\n� [Aggregation] Processing chunk ${chunkIndex + 1}/${chunks.length}...`);
           
-          const tokenAddresses = chunk.map(t => t.tokenAddress);
-          const rawData = await apiClient.fetchMultipleTokens(tokenAddresses, 2);
+          const rawData = await apiClient.fetchMultipleTokens(chunk, 2);
 
           // Process and cache each token IMMEDIATELY after fetch
-          for (const [address, data] of rawData.entries()) {
-            const metadata = csvParser.getToken(address);
-            if (!metadata) {
-              console.warn(`⚠️  [Aggregation] Skipping ${address} - metadata not found`);
+          for (const metadata of chunk) {
+            const key = getTokenKey(metadata.chain, metadata.tokenAddress);
+            const data = rawData.get(key);
+            if (!data) {
+              console.warn(`⚠️  [Aggregation] Skipping ${key} - no fetch result`);
               failCount++;
               continue;
             }
 
             try {
-              const tokenData = this.mergeTokenData(
-                data.dexScreener,
-                data.geckoTerminal,
-                metadata
-              );
+              const tokenData = this.mergeTokenData(data, metadata);
 
               // ✨ Cache even if only ONE API returned data (partial data is better than no data!)
               if (tokenData.sources && tokenData.sources.length > 0) {
-                await cacheService.setToken(address, tokenData, 300);
+                await cacheService.setToken(key, tokenData, 300);
+                await pairsService.recordPairs(data, metadata, 300);
+                await profileService.recordProfile(data, metadata);
                 console.log(`💾 [Cache] Immediately cached ${metadata.symbol} with 5min TTL (Sources: ${tokenData.sources.join(', ')})`);
                 
                 results.push(tokenData);
@@ -384,12 +300,16 @@ class TokenAggregationService {
   /**
    * Refresh a specific token (bypass cache)
    */
-  async refreshToken(tokenAddress: string): Promise<TokenData | null> {
-    console.log(`🔄 [Aggregation] Refreshing token: ${tokenAddress} (bypassing cache)`);
-    // Clear both caches
-    this.memoryCache.delete(tokenAddress);
-    await cacheService.deleteToken(tokenAddress);
-    return this.aggregateToken(tokenAddress);
+  async refreshToken(tokenId: string): Promise<TokenData | null> {
+    console.log(`🔄 [Aggregation] Refreshing token: ${tokenId} (bypassing cache)`);
+    const metadata = tokenRegistry.getToken(tokenId);
+    if (metadata) {
+      // Clear both caches
+      const key = getTokenKey(metadata.chain, metadata.tokenAddress);
+      this.memoryCache.delete(key);
+      await cacheService.deleteToken(key);
+    }
+    return this.aggregateToken(tokenId);
   }
 
   /**
@@ -0,0 +1,349 @@
+/**
+ * Token registry - the tracked token universe, stored in MongoDB and kept in
+ * memory for lookups. An empty registry is seeded from p1.csv.
+ */
+
+import mongoose from 'mongoose';
+import { RegistryToken, RegistryTokenInput, TokenMetadata } from '../types/token.js';
+import { RegistryTokenModel } from '../models/registryToken.js';
+import { csvParser, RejectedRow } from './csvParser.js';
+import { getAddressKey, getTokenKey, normalizeAddress, parseTokenId } from './addressValidation.js';
+import { DEFAULT_CHAIN } from './chains.js';
+import { ConflictError, NotFoundError, ServiceUnavailableError, ValidationError } from './customErrors.js';
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+class TokenRegistry {
+  // Entries by token key (chain + address)
+  private tokens: Map<string, RegistryToken> = new Map();
+  private isLoaded: boolean = false;
+  // Seed rows and stored entries skipped at load time
+  private loadErrors: RejectedRow[] = [];
+
+  /**
+   * Check if MongoDB is connected
+   */
+  isAvailable(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * Load the registry from MongoDB, seeding it from the CSV file when empty.
+   * Without MongoDB the CSV is loaded in memory and the registry is read-only.
+   */
+  async load(seedFile: string = 'p1.csv'): Promise<void> {
+    if (this.isLoaded) {
+      return;
+    }
+
+    if (!this.isAvailable()) {
+      console.warn('⚠️  [Registry] MongoDB not connected, loading tokens from CSV (read-only)');
+      const { tokens, rejected } = await csvParser.readTokens(seedFile);
+      for (const token of tokens) {
+        const entry = this.fromMetadata(token);
+        this.tokens.set(this.getKey(entry), entry);
+      }
+      this.loadErrors.push(...rejected);
+    } else {
+      if ((await RegistryTokenModel.estimatedDocumentCount()) === 0) {
+        await this.seed(seedFile);
+      }
+
+      const docs = await RegistryTokenModel.find().lean();
+      for (const doc of docs) {
+        const { _id, ...entry } = doc;
+        const validation = normalizeAddress(entry.tokenAddress, entry.chain);
+        if (!validation.valid) {
+          this.loadErrors.push({ line: null, tokenAddress: entry.tokenAddress, error: validation.error });
+          console.warn(`⚠️  [Registry] Skipping stored token ${entry.symbol} (${entry.tokenAddress}): ${validation.error}`);
+          continue;
+        }
+        this.tokens.set(this.getKey(entry), entry);
+      }
+    }
+
+    this.isLoaded = true;
+    console.log(`✅ [Registry] Loaded ${this.tokens.size} tokens (${this.getTokenCount()} enabled, ${this.loadErrors.length} rejected)`);
+  }
+
+  /**
+   * Import the CSV file into an empty registry
+   */
+  private async seed(seedFile: string): Promise<void> {
+    const { tokens, rejected } = await csvParser.readTokens(seedFile);
+    const entries = tokens.map(token => this.fromMetadata(token));
+    this.loadErrors.push(...rejected);
+
+    if (entries.length > 0) {
+      await RegistryTokenModel.insertMany(entries, { ordered: false });
+    }
+    console.log(`🌱 [Registry] Seeded ${entries.length} tokens from ${seedFile}`);
+  }
+
+  /**
+   * Get an enabled token by id (address, or "chain:address")
+   */
+  getToken(tokenId: string): RegistryToken | undefined {
+    return this.find(tokenId, true);
+  }
+
+  /**
+   * Get a registry entry by id (address, or "chain:address"), enabled or not
+   */
+  getEntry(tokenId: string): RegistryToken | undefined {
+    return this.find(tokenId, false);
+  }
+
+  /**
+   * Look up an entry. A bare address resolves to the default chain first,
+   * then to the first other chain it is registered on.
+   */
+  private find(tokenId: string, enabledOnly: boolean): RegistryToken | undefined {
+    const { chain, address } = parseTokenId(tokenId);
+    const matches = (entry: RegistryToken | undefined) => !!entry && (!enabledOnly || entry.enabled);
+
+    const direct = this.tokens.get(getTokenKey(chain || DEFAULT_CHAIN, address));
+    if (matches(direct) || chain) {
+      return matches(direct) ? direct : undefined;
+    }
+
+    const addressKey = getAddressKey(address);
+    return Array.from(this.tokens.values()).find(
+      entry => getAddressKey(entry.tokenAddress) === addressKey && matches(entry)
+    );
+  }
+
+  /**
+   * Get all enabled tokens
+   */
+  getAllTokens(): RegistryToken[] {
+    return Array.from(this.tokens.values()).filter(entry => entry.enabled);
+  }
+
+  /**
+   * Get every registry entry, including disabled ones
+   */
+  listEntries(): RegistryToken[] {
+    return Array.from(this.tokens.values());
+  }
+
+  /**
+   * Check if the registry is loaded
+   */
+  isReady(): boolean {
+    return this.isLoaded;
+  }
+
+  /**
+   * Get the seed rows and stored entries that were skipped at load time
+   */
+  getLoadErrors(): RejectedRow[] {
+    return [...this.loadErrors];
+  }
+
+  /**
+   * Get enabled tokens count
+   */
+  getTokenCount(): number {
+    return this.getAllTokens().length;
+  }
+
+  /**
+   * Track a token in memory only (used by the discovery job).
+   * Returns false if it is already registered.
+   */
+  addToken(token: TokenMetadata): boolean {
+    const entry = this.fromMetadata(token);
+    const key = this.getKey(entry);
+    if (this.tokens.has(key)) {
+      return false;
+    }
+    this.tokens.set(key, entry);
+    return true;
+  }
+
+  /**
+   * Register a new token
+   */
+  async create(input: RegistryTokenInput): Promise<RegistryToken> {
+    this.assertWritable();
+    const address = this.assertValid(input, null);
+    const entry = this.applyInput(
+      { tokenAddress: address, name: '', symbol: '', chain: DEFAULT_CHAIN, tags: [], enabled: true },
+      input
+    );
+    if (this.tokens.has(this.getKey(entry))) {
+      throw new ConflictError(`Token ${address} is already registered on ${entry.chain}`);
+    }
+
+    const { _id, ...saved } = (await RegistryTokenModel.create(entry)).toObject();
+
+    this.tokens.set(this.getKey(saved), saved);
+    console.log(`➕ [Registry] Added ${saved.symbol} (${saved.chain}:${address})`);
+    return saved;
+  }
+
+  /**
+   * Update a registered token. Tokens tracked in memory only (discovered) are
+   * persisted by their first update.
+   */
+  async update(tokenId: string, input: RegistryTokenInput): Promise<RegistryToken> {
+    this.assertWritable();
+
+    const current = this.getEntry(tokenId);
+    if (!current) {
+      throw new NotFoundError(`Token ${tokenId} is not registered`);
+    }
+    const address = this.assertValid(input, current);
+
+    const next = this.applyInput({ ...current, tokenAddress: address }, input);
+    const moved = this.getKey(next) !== this.getKey(current);
+    if (moved && this.tokens.has(this.getKey(next))) {
+      throw new ConflictError(`Token ${address} is already registered on ${next.chain}`);
+    }
+
+    const { createdAt, updatedAt, ...fields } = next;
+    const doc = await RegistryTokenModel.findOneAndReplace(
+      { chain: current.chain, tokenAddress: current.tokenAddress },
+      { ...fields, ...(createdAt && { createdAt }) },
+      { upsert: true, returnDocument: 'after', lean: true }
+    );
+    if (!doc) {
+      throw new NotFoundError(`Token ${address} is not registered`);
+    }
+
+    const { _id, ...saved } = doc;
+    this.tokens.delete(this.getKey(current));
+    this.tokens.set(this.getKey(saved), saved);
+    console.log(`✏️  [Registry] Updated ${saved.symbol} (${saved.chain}:${saved.tokenAddress})`);
+    return saved;
+  }
+
+  /**
+   * Remove a token from the registry
+   */
+  async remove(tokenId: string): Promise<RegistryToken> {
+    this.assertWritable();
+
+    const current = this.getEntry(tokenId);
+    if (!current) {
+      throw new NotFoundError(`Token ${tokenId} is not registered`);
+    }
+
+    await RegistryTokenModel.deleteOne({ chain: current.chain, tokenAddress: current.tokenAddress });
+    this.tokens.delete(this.getKey(current));
+    console.log(`➖ [Registry] Removed ${current.symbol} (${current.chain}:${current.tokenAddress})`);
+    return current;
+  }
+
+  /**
+   * Registry key for an entry
+   */
+  private getKey(entry: RegistryToken): string {
+    return getTokenKey(entry.chain, entry.tokenAddress);
+  }
+
+  /**
+   * Registry entry with default settings for plain token metadata
+   */
+  private fromMetadata(token: TokenMetadata): RegistryToken {
+    return { ...token, chain: token.chain || DEFAULT_CHAIN, tags: [], enabled: true };
+  }
+
+  /**
+   * Apply validated input to an entry (null clears an optional setting)
+   */
+  private applyInput(entry: RegistryToken, input: RegistryTokenInput): RegistryToken {
+    if (input.name !== undefined) entry.name = input.name.trim();
+    if (input.symbol !== undefined) entry.symbol = input.symbol.trim();
+    if (input.chain !== undefined) entry.chain = input.chain.trim().toLowerCase();
+    if (input.tags !== undefined) entry.tags = Array.from(new Set(input.tags.map(tag => tag.trim()).filter(Boolean)));
+    if (input.enabled !== undefined) entry.enabled = input.enabled;
+
+    if (input.pinnedDexId === null) delete entry.pinnedDexId;
+    else if (input.pinnedDexId !== undefined) entry.pinnedDexId = input.pinnedDexId.trim();
+
+    if (input.pinnedPairAddress === null) delete entry.pinnedPairAddress;
+    else if (input.pinnedPairAddress !== undefined) entry.pinnedPairAddress = input.pinnedPairAddress.trim();
+
+    if (input.anomalyZThreshold === null) delete entry.anomalyZThreshold;
+    else if (input.anomalyZThreshold !== undefined) entry.anomalyZThreshold = input.anomalyZThreshold;
+
+    return entry;
+  }
+
+  /**
+   * Validate admin input against the entry being updated (null when
+   * creating), throwing a ValidationError listing every bad field.
+   * Returns the canonical address for the resulting chain.
+   */
+  private assertValid(input: RegistryTokenInput, current: RegistryToken | null): string {
+    const errors: FieldError[] = [];
+    const creating = current === null;
+    const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+    if (creating) {
+      for (const field of ['address', 'name', 'symbol'] as const) {
+        if (!isText(input[field])) {
+          errors.push({ field, message: `${field} is required` });
+        }
+      }
+    } else if (input.address !== undefined) {
+      errors.push({ field: 'address', message: 'address cannot be changed' });
+    }
+
+    for (const field of ['name', 'symbol', 'chain'] as const) {
+      if (input[field] !== undefined && !isText(input[field])) {
+        errors.push({ field, message: `${field} must be a non-empty string` });
+      }
+    }
+    if (input.tags !== undefined && (!Array.isArray(input.tags) || !input.tags.every(tag => typeof tag === 'string'))) {
+      errors.push({ field: 'tags', message: 'tags must be an array of strings' });
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      errors.push({ field: 'enabled', message: 'enabled must be a boolean' });
+    }
+    for (const field of ['pinnedDexId', 'pinnedPairAddress'] as const) {
+      if (input[field] !== undefined && input[field] !== null && !isText(input[field])) {
+        errors.push({ field, message: `${field} must be a non-empty string or null` });
+      }
+    }
+    const threshold = input.anomalyZThreshold;
+    if (threshold !== undefined && threshold !== null && !(typeof threshold === 'number' && threshold > 0)) {
+      errors.push({ field: 'anomalyZThreshold', message: 'anomalyZThreshold must be a positive number or null' });
+    }
+
+    // The address must be valid on the (possibly changed) chain
+    let address = current?.tokenAddress || '';
+    const rawAddress = creating ? input.address : current.tokenAddress;
+    if (isText(rawAddress) && (input.chain === undefined || isText(input.chain))) {
+      const chain = input.chain !== undefined ? input.chain.trim().toLowerCase() : current?.chain || DEFAULT_CHAIN;
+      const validation = normalizeAddress(rawAddress as string, chain);
+      if (validation.valid) {
+        address = validation.address;
+      } else {
+        errors.push({ field: creating ? 'address' : 'chain', message: validation.error });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid token registry input', errors);
+    }
+    return address;
+  }
+
+  /**
+   * Admin changes need MongoDB
+   */
+  private assertWritable(): void {
+    if (!this.isAvailable()) {
+      throw new ServiceUnavailableError('Token registry storage is unavailable');
+    }
+  }
+}
+
+// Singleton instance
+export const tokenRegistry = new TokenRegistry();
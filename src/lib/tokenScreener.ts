@@ -0,0 +1,585 @@
+/**
+ * Token screener - the filter, sort and paginate pipeline behind the token
+ * list, shared by GET /api/tokens and saved screens
+ */
+
+import {
+  TokenData,
+  TokenFilters,
+  TimePeriod,
+  TimeWindow,
+  TradeMetrics,
+  CandleTimeframe,
+  IndicatorSpec,
+  PaginatedTokenResponse,
+} from '../types/token.js';
+import { tokenAggregationService } from './tokenAggregation.js';
+import { sevenDayService } from './sevenDayService.js';
+import { dataQualityService } from './dataQualityService.js';
+import { priceImpactService } from './priceImpactService.js';
+import { computeTradeMetrics } from './tradeMetrics.js';
+import { indicatorService } from './indicatorService.js';
+import { CANDLE_TIMEFRAMES } from './historyService.js';
+import { CHAINS, getChain } from './chains.js';
+import { parseFilterExpression, matchesFilter, getFilterFields } from './filterExpression.js';
+import { BadRequestError } from './customErrors.js';
+
+// Parameters read by parseFilters (pagination cursor aside)
+export const FILTER_PARAMS: readonly string[] = [
+  'timePeriod', 'sortBy', 'sortOrder', 'limit', 'chain',
+  'minVolume', 'minPriceChange', 'minMarketCap', 'minLiquidity', 'minConfidence',
+  'minBuyers', 'minSellers', 'minBuySellRatio', 'minNetBuyVolume', 'minAvgTradeSize', 'minAgeHours', 'maxAgeHours',
+  'indicators', 'minIndicator', 'maxIndicator', 'indicatorInterval',
+  'maxPriceImpact', 'impactSizeUsd', 'filter',
+];
+
+export interface ScreenResult {
+  // Every token with the data the filters need (quality, 7d stats, indicators)
+  tokens: TokenData[];
+  // Tokens that pass the filters, sorted
+  matches: TokenData[];
+}
+
+class TokenScreener {
+  /**
+   * Parse token list parameters (query string values, or the same names in a
+   * saved screen) into filters. Throws a BadRequestError for invalid values
+   * (a ValidationError with the position for an invalid filter expression).
+   */
+  parseFilters(query: Record<string, unknown>): TokenFilters {
+    const param = (name: string): string | undefined => {
+      const value = query[name];
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+    };
+
+    const filters: TokenFilters = {
+      timePeriod: this.validateTimePeriod(param('timePeriod')),
+      sortBy: this.validateSortBy(param('sortBy')),
+      sortOrder: param('sortOrder') === 'asc' ? 'asc' : 'desc',
+      limit: Math.min(Math.max(1, parseInt(param('limit') || '') || 20), 100),
+    };
+
+    const cursor = param('cursor');
+    if (cursor) {
+      filters.cursor = cursor;
+    }
+
+    // Parse optional filter parameters
+    const chain = param('chain')?.trim().toLowerCase();
+    if (chain) {
+      if (!getChain(chain)) {
+        throw new BadRequestError(`Invalid chain. Expected one of: ${Object.keys(CHAINS).join(', ')}`);
+      }
+      filters.chain = chain;
+    }
+
+    if (param('minVolume')) {
+      filters.minVolume = Math.max(0, parseFloat(param('minVolume') as string));
+    }
+
+    if (param('minPriceChange')) {
+      filters.minPriceChange = parseFloat(param('minPriceChange') as string);
+    }
+
+    if (param('minMarketCap')) {
+      filters.minMarketCap = Math.max(0, parseFloat(param('minMarketCap') as string));
+    }
+
+    if (param('minLiquidity')) {
+      filters.minLiquidity = Math.max(0, parseFloat(param('minLiquidity') as string));
+    }
+
+    if (param('minConfidence')) {
+      filters.minConfidence = Math.min(Math.max(0, parseFloat(param('minConfidence') as string)), 100);
+    }
+
+    const parseMinimum = (name: string): number | undefined => {
+      const value = parseFloat(param(name) as string);
+      return isFinite(value) ? value : undefined;
+    };
+    const rangeFilters = {
+      minBuyers: parseMinimum('minBuyers'),
+      minSellers: parseMinimum('minSellers'),
+      minBuySellRatio: parseMinimum('minBuySellRatio'),
+      minNetBuyVolume: parseMinimum('minNetBuyVolume'), // May be negative (net selling)
+      minAvgTradeSize: parseMinimum('minAvgTradeSize'),
+      minAgeHours: parseMinimum('minAgeHours'),
+      maxAgeHours: parseMinimum('maxAgeHours'),
+    };
+    for (const [key, value] of Object.entries(rangeFilters)) {
+      if (value !== undefined) {
+        filters[key as keyof typeof rangeFilters] = value;
+      }
+    }
+
+    // Indicators: those explicitly requested plus any used to sort or filter
+    const requestedIndicators = indicatorService.parseSet(param('indicators') || '');
+    if (requestedIndicators.invalid.length > 0) {
+      throw new BadRequestError(`Invalid indicators: ${requestedIndicators.invalid.join(', ')}`);
+    }
+    const indicatorSpecs: IndicatorSpec[] = [...requestedIndicators.specs];
+    const useIndicator = (key: string): boolean => {
+      const spec = this.parseIndicatorKey(key);
+      if (!spec) return false;
+      if (!indicatorSpecs.some(existing => existing.key === spec.key)) {
+        indicatorSpecs.push(spec);
+      }
+      return true;
+    };
+
+    // sortBy values that are not built-in sort keys may name an indicator
+    const requestedSortBy = param('sortBy');
+    if (requestedSortBy && requestedSortBy !== filters.sortBy && useIndicator(requestedSortBy)) {
+      filters.sortBy = 'indicator';
+      filters.sortIndicator = requestedSortBy;
+    }
+
+    for (const bound of ['min', 'max'] as const) {
+      for (const entry of (param(`${bound}Indicator`) || '').split(',').filter(Boolean)) {
+        const separator = entry.lastIndexOf(':');
+        const key = entry.slice(0, separator);
+        const value = parseFloat(entry.slice(separator + 1));
+        if (separator === -1 || !isFinite(value) || !useIndicator(key)) {
+          throw new BadRequestError(`Invalid ${bound}Indicator entry "${entry}". Expected <indicator>:<value>, e.g. rsi14:30`);
+        }
+        filters.indicatorRanges = filters.indicatorRanges || {};
+        filters.indicatorRanges[key] = { ...filters.indicatorRanges[key], [bound]: value };
+      }
+    }
+
+    // Filter expression; indicator fields it references are computed too
+    const filter = param('filter')?.trim();
+    if (filter) {
+      filters.filter = filter;
+      filters.filterExpression = parseFilterExpression(filter);
+      for (const field of getFilterFields(filters.filterExpression)) {
+        if (field.startsWith('indicators.') && !useIndicator(field.slice('indicators.'.length))) {
+          throw new BadRequestError(`Invalid filter field "${field}". Expected indicators.<indicator>, e.g. indicators.rsi14`);
+        }
+      }
+    }
+
+    const indicatorInterval = param('indicatorInterval') || '1h';
+    if (!CANDLE_TIMEFRAMES.includes(indicatorInterval as CandleTimeframe)) {
+      throw new BadRequestError(`Invalid indicatorInterval. Expected one of: ${CANDLE_TIMEFRAMES.join(', ')}`);
+    }
+    if (indicatorSpecs.length > 0) {
+      filters.indicators = indicatorSpecs.map(spec => spec.key);
+      filters.indicatorInterval = indicatorInterval as CandleTimeframe;
+    }
+
+    if (param('maxPriceImpact')) {
+      const maxPriceImpact = Number(param('maxPriceImpact'));
+      if (!isFinite(maxPriceImpact)) {
+        throw new BadRequestError('Invalid maxPriceImpact. Expected a percentage, e.g. 2.5');
+      }
+      filters.maxPriceImpact = Math.max(0, maxPriceImpact);
+      filters.impactSizeUsd = parseFloat(param('impactSizeUsd') as string) > 0
+        ? parseFloat(param('impactSizeUsd') as string)
+        : priceImpactService.getConfig().defaultSizeUsd;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Run the filters over every tracked token and sort the matches
+   */
+  async screen(filters: TokenFilters): Promise<ScreenResult> {
+    // Get all tokens with data quality (and 7d stats when that period is requested or filtered on)
+    let tokens = dataQualityService.attachQuality(await tokenAggregationService.aggregateAllTokens());
+    const filtersOnSevenDay = filters.filterExpression &&
+      getFilterFields(filters.filterExpression).some(field => field.split('.')[0] === 'd7');
+    if (filters.timePeriod === '7d' || filtersOnSevenDay) {
+      tokens = await sevenDayService.attachSevenDayStats(tokens);
+    }
+    // Cached age goes stale; recompute it from the pool creation time
+    tokens = tokens.map(token => ({ ...token, ageHours: this.getAgeHours(token) }));
+
+    const indicatorSpecs = this.getIndicatorSpecs(filters);
+    if (indicatorSpecs.length > 0) {
+      tokens = await indicatorService.attachIndicators(tokens, indicatorSpecs, filters.indicatorInterval || '1h');
+    }
+
+    const buyImpacts = new Map<TokenData, number | null>();
+    if (filters.maxPriceImpact !== undefined) {
+      await Promise.all(tokens.map(async token => {
+        buyImpacts.set(token, await priceImpactService.getBuyImpactPct(token, filters.impactSizeUsd));
+      }));
+    }
+
+    // Apply filters, then sort
+    const matches = this.sortTokens(this.applyFilters(tokens, filters, buyImpacts), filters);
+
+    return { tokens, matches };
+  }
+
+  /**
+   * Describe the filters for response metadata
+   */
+  describeFilters(filters: TokenFilters): Record<string, unknown> {
+    return {
+      filtersApplied: {
+        timePeriod: filters.timePeriod,
+        sortBy: filters.sortIndicator ?? filters.sortBy,
+        sortOrder: filters.sortOrder,
+        chain: filters.chain,
+        minVolume: filters.minVolume,
+        minPriceChange: filters.minPriceChange,
+        minMarketCap: filters.minMarketCap,
+        minLiquidity: filters.minLiquidity,
+        minConfidence: filters.minConfidence,
+        maxPriceImpact: filters.maxPriceImpact,
+        impactSizeUsd: filters.impactSizeUsd,
+        minBuyers: filters.minBuyers,
+        minSellers: filters.minSellers,
+        minBuySellRatio: filters.minBuySellRatio,
+        minNetBuyVolume: filters.minNetBuyVolume,
+        minAvgTradeSize: filters.minAvgTradeSize,
+        minAgeHours: filters.minAgeHours,
+        maxAgeHours: filters.maxAgeHours,
+        indicatorRanges: filters.indicatorRanges,
+        filter: filters.filter,
+      },
+      ...(filters.indicators && {
+        indicators: indicatorService.getOutputKeys(this.getIndicatorSpecs(filters)),
+        indicatorInterval: filters.indicatorInterval,
+      }),
+    };
+  }
+
+  /**
+   * Indicator specs the filters need (requested, sorted on or filtered on)
+   */
+  private getIndicatorSpecs(filters: TokenFilters): IndicatorSpec[] {
+    return indicatorService.parseSet((filters.indicators || []).join(',')).specs;
+  }
+
+  /**
+   * Apply filters to token list (buyImpacts holds each token's buy-side
+   * price impact when maxPriceImpact is set)
+   */
+  private applyFilters(tokens: TokenData[], filters: TokenFilters, buyImpacts: Map<TokenData, number | null>): TokenData[] {
+    let filtered = [...tokens];
+
+    // Filter by chain
+    if (filters.chain) {
+      filtered = filtered.filter(token => token.chainId === filters.chain);
+    }
+
+    // Filter by minimum volume (tokens without data for the period are excluded)
+    if (filters.minVolume) {
+      filtered = filtered.filter(token => {
+        const volume = this.getVolume(token, filters.timePeriod);
+        return volume !== null && volume >= (filters.minVolume || 0);
+      });
+    }
+
+    // Filter by minimum price change
+    if (filters.minPriceChange !== undefined) {
+      filtered = filtered.filter(token => {
+        const priceChange = this.getPriceChange(token, filters.timePeriod);
+        return priceChange !== null && priceChange >= (filters.minPriceChange || 0);
+      });
+    }
+
+    // Filter by minimum market cap
+    if (filters.minMarketCap) {
+      filtered = filtered.filter(token => {
+        return (token.marketCap || 0) >= (filters.minMarketCap || 0);
+      });
+    }
+
+    // Filter by minimum liquidity
+    if (filters.minLiquidity) {
+      filtered = filtered.filter(token => {
+        return (token.liquidity || 0) >= (filters.minLiquidity || 0);
+      });
+    }
+
+    // Filter by minimum confidence score
+    if (filters.minConfidence) {
+      filtered = filtered.filter(token => {
+        return (token.confidence || 0) >= (filters.minConfidence || 0);
+      });
+    }
+
+    // Filter by unique traders and buy-pressure metrics (tokens without the value are excluded)
+    const minimums: Array<[number | undefined, (token: TokenData) => number | null]> = [
+      [filters.minBuyers, token => this.getTraderCount(token, 'buyers', filters.timePeriod)],
+      [filters.minSellers, token => this.getTraderCount(token, 'sellers', filters.timePeriod)],
+      [filters.minBuySellRatio, token => this.getTradeMetric(token, 'buySellRatio', filters.timePeriod)],
+      [filters.minNetBuyVolume, token => this.getTradeMetric(token, 'netBuyVolume', filters.timePeriod)],
+      [filters.minAvgTradeSize, token => this.getTradeMetric(token, 'avgTradeSize', filters.timePeriod)],
+    ];
+    for (const [minimum, getValue] of minimums) {
+      if (minimum === undefined) continue;
+      filtered = filtered.filter(token => {
+        const value = getValue(token);
+        return value !== null && value >= minimum;
+      });
+    }
+
+    // Filter by token age in hours (tokens with unknown age are excluded)
+    if (filters.minAgeHours !== undefined || filters.maxAgeHours !== undefined) {
+      filtered = filtered.filter(token => {
+        const ageHours = this.getAgeHours(token);
+        return ageHours !== null &&
+          (filters.minAgeHours === undefined || ageHours >= filters.minAgeHours) &&
+          (filters.maxAgeHours === undefined || ageHours <= filters.maxAgeHours);
+      });
+    }
+
+    // Filter by indicator ranges (tokens without the indicator value are excluded)
+    for (const [key, { min, max }] of Object.entries(filters.indicatorRanges || {})) {
+      filtered = filtered.filter(token => {
+        const value = token.indicators?.[key] ?? null;
+        return value !== null && (min === undefined || value >= min) && (max === undefined || value <= max);
+      });
+    }
+
+    // Filter by expression
+    const expression = filters.filterExpression;
+    if (expression) {
+      filtered = filtered.filter(token => matchesFilter(expression, token));
+    }
+
+    // Filter by maximum buy-side price impact (%) for an order of impactSizeUsd
+    if (filters.maxPriceImpact !== undefined) {
+      filtered = filtered.filter(token => {
+        const impact = buyImpacts.get(token) ?? null;
+        return impact !== null && impact <= (filters.maxPriceImpact ?? 0);
+      });
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Get rolling window key based on time period (7d is not an upstream window)
+   */
+  getWindowKey(timePeriod?: Exclude<TimePeriod, '7d'>): TimeWindow {
+    switch (timePeriod) {
+      case '5m':
+        return 'm5';
+      case '15m':
+        return 'm15';
+      case '30m':
+        return 'm30';
+      case '1h':
+        return 'h1';
+      case '6h':
+        return 'h6';
+      case '24h':
+      default:
+        return 'h24';
+    }
+  }
+
+  /**
+   * Get volume for a time period (null when 7d data is missing)
+   */
+  private getVolume(token: TokenData, timePeriod?: TimePeriod): number | null {
+    if (timePeriod === '7d') {
+      return token.d7?.available ? token.d7.volume : null;
+    }
+    return token.volume[this.getWindowKey(timePeriod)] || 0;
+  }
+
+  /**
+   * Get price change for a time period (null when 7d data is missing)
+   */
+  private getPriceChange(token: TokenData, timePeriod?: TimePeriod): number | null {
+    if (timePeriod === '7d') {
+      return token.d7?.available ? token.d7.priceChange : null;
+    }
+    return token.priceChange[this.getWindowKey(timePeriod)] || 0;
+  }
+
+  /**
+   * Get transaction count for a time period (null when 7d data is missing)
+   */
+  private getTransactionCount(token: TokenData, timePeriod?: TimePeriod): number | null {
+    if (timePeriod === '7d') {
+      const txns = token.d7?.available ? token.d7.transactions : null;
+      return txns ? txns.buys + txns.sells : null;
+    }
+    const txns = token.transactions[this.getWindowKey(timePeriod)];
+    return (txns?.buys || 0) + (txns?.sells || 0);
+  }
+
+  /**
+   * Get unique buyer or seller count for a time period (null when no source
+   * reports it; 7d has no trader counts)
+   */
+  private getTraderCount(token: TokenData, side: 'buyers' | 'sellers', timePeriod?: TimePeriod): number | null {
+    if (timePeriod === '7d') {
+      return null;
+    }
+    return token.transactions[this.getWindowKey(timePeriod)]?.[side] ?? null;
+  }
+
+  /**
+   * Get a buy-pressure metric for a time period (null when it cannot be derived)
+   */
+  private getTradeMetric(token: TokenData, metric: keyof TradeMetrics, timePeriod?: TimePeriod): number | null {
+    if (timePeriod === '7d') {
+      const d7 = token.d7?.available ? token.d7 : null;
+      if (!d7 || d7.volume === null || !d7.transactions) return null;
+      return computeTradeMetrics(d7.volume, d7.transactions.buys, d7.transactions.sells)[metric];
+    }
+    const window = this.getWindowKey(timePeriod);
+    const txns = token.transactions[window];
+    return computeTradeMetrics(token.volume[window] || 0, txns?.buys || 0, txns?.sells || 0)[metric];
+  }
+
+  /**
+   * Get token age in hours from its oldest pool (null when unknown)
+   */
+  private getAgeHours(token: TokenData): number | null {
+    if (!token.createdAt) return null;
+    return (Date.now() - new Date(token.createdAt).getTime()) / (60 * 60 * 1000);
+  }
+
+  /**
+   * Resolve an indicator output key (e.g. "rsi14", "bollinger20.upper") to its spec
+   */
+  private parseIndicatorKey(key: string): IndicatorSpec | null {
+    const { specs: [spec] } = indicatorService.parseSet(key.split('.')[0] || '');
+    return spec && indicatorService.getOutputKeys([spec]).includes(key) ? spec : null;
+  }
+
+  /**
+   * Sort token list (tokens without data for the period go last)
+   */
+  private sortTokens(tokens: TokenData[], filters: TokenFilters): TokenData[] {
+    const { sortBy = 'volume', sortOrder = 'desc', timePeriod = '24h' } = filters;
+    
+    return tokens.sort((a, b) => {
+      let valueA: number | null;
+      let valueB: number | null;
+
+      switch (sortBy) {
+        case 'volume':
+          valueA = this.getVolume(a, timePeriod);
+          valueB = this.getVolume(b, timePeriod);
+          break;
+          
+        case 'priceChange':
+          valueA = this.getPriceChange(a, timePeriod);
+          valueB = this.getPriceChange(b, timePeriod);
+          break;
+          
+        case 'marketCap':
+          valueA = a.marketCap || 0;
+          valueB = b.marketCap || 0;
+          break;
+          
+        case 'fdv':
+          valueA = a.fdv || 0;
+          valueB = b.fdv || 0;
+          break;
+          
+        case 'price':
+          valueA = a.priceUsd || 0;
+          valueB = b.priceUsd || 0;
+          break;
+          
+        case 'liquidity':
+          valueA = a.liquidity || 0;
+          valueB = b.liquidity || 0;
+          break;
+          
+        case 'transactions':
+          valueA = this.getTransactionCount(a, timePeriod);
+          valueB = this.getTransactionCount(b, timePeriod);
+          break;
+
+        case 'confidence':
+          valueA = a.confidence || 0;
+          valueB = b.confidence || 0;
+          break;
+
+        case 'buyers':
+        case 'sellers':
+          valueA = this.getTraderCount(a, sortBy, timePeriod);
+          valueB = this.getTraderCount(b, sortBy, timePeriod);
+          break;
+
+        case 'buySellRatio':
+        case 'netBuyVolume':
+        case 'avgTradeSize':
+          valueA = this.getTradeMetric(a, sortBy, timePeriod);
+          valueB = this.getTradeMetric(b, sortBy, timePeriod);
+          break;
+
+        case 'indicator':
+          valueA = a.indicators?.[filters.sortIndicator || ''] ?? null;
+          valueB = b.indicators?.[filters.sortIndicator || ''] ?? null;
+          break;
+          
+        default:
+          valueA = a.volume.h24 || 0;
+          valueB = b.volume.h24 || 0;
+      }
+
+      if (valueA === null || valueB === null) {
+        return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+      }
+
+      return sortOrder === 'asc' ? valueA - valueB : valueB - valueA;
+    });
+  }
+
+  /**
+   * Paginate token list with cursor-based pagination
+   */
+  paginate(
+    tokens: TokenData[],
+    limit: number,
+    cursor?: string
+  ): PaginatedTokenResponse {
+    // Validate and parse cursor
+    const startIndex = cursor ? Math.max(0, parseInt(cursor, 10)) : 0;
+    
+    // Ensure limit is within reasonable bounds
+    const safeLimit = Math.min(Math.max(1, limit), 100); // Min 1, Max 100
+    
+    const endIndex = startIndex + safeLimit;
+    const paginatedTokens = tokens.slice(startIndex, endIndex);
+    const hasMore = endIndex < tokens.length;
+
+    return {
+      data: paginatedTokens,
+      pagination: {
+        total: tokens.length,
+        limit: safeLimit,
+        cursor: startIndex.toString(),
+        nextCursor: hasMore ? endIndex.toString() : null,
+        hasMore,
+      },
+    };
+  }
+
+  /**
+   * Validate time period parameter
+   */
+  validateTimePeriod(timePeriod?: string): TimePeriod {
+    const valid = ['5m', '15m', '30m', '1h', '6h', '24h', '7d'];
+    return valid.includes(timePeriod || '') ? (timePeriod as TimePeriod) : '24h';
+  }
+
+  /**
+   * Validate sort by parameter
+   */
+  private validateSortBy(sortBy?: string): NonNullable<TokenFilters['sortBy']> {
+    const valid = [
+      'volume', 'priceChange', 'marketCap', 'fdv', 'transactions', 'price', 'liquidity', 'confidence',
+      'buyers', 'sellers', 'buySellRatio', 'netBuyVolume', 'avgTradeSize',
+    ];
+    return valid.includes(sortBy || '') ? (sortBy as any) : 'volume';
+  }
+}
+
+// Singleton instance
+export const tokenScreener = new TokenScreener();
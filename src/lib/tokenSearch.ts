@@ -0,0 +1,180 @@
+/**
+ * Token search - prefix and fuzzy matching on token name, symbol and address
+ * for GET /api/tokens/search, ranked by match quality and then 24h volume
+ */
+
+import { TokenData } from '../types/token.js';
+
+export type SearchMatchType = 'exact' | 'prefix' | 'word' | 'substring' | 'fuzzy';
+export type SearchField = 'symbol' | 'name' | 'address';
+
+export interface SearchMatch {
+  tokenId: string;
+  field: SearchField;
+  type: SearchMatchType;
+  score: number;
+}
+
+export interface SearchResult {
+  tokens: TokenData[];
+  matches: SearchMatch[];
+  total: number;
+}
+
+// Base score per match type; symbol matches rank above name matches above address matches
+const TYPE_SCORES: Record<SearchMatchType, number> = {
+  exact: 100,
+  prefix: 80,
+  word: 70,
+  substring: 50,
+  fuzzy: 30,
+};
+const FIELD_BONUS: Record<SearchField, number> = {
+  symbol: 5,
+  name: 3,
+  address: 0,
+};
+
+// Addresses only match on exact or prefix queries at least this long
+const MIN_ADDRESS_QUERY = 4;
+
+class TokenSearch {
+  /**
+   * Search tokens. Matches are ranked by score (best field per token), then
+   * by 24h volume.
+   */
+  search(tokens: TokenData[], query: string, limit: number): SearchResult {
+    const needle = this.normalize(query);
+    if (!needle) {
+      return { tokens: [], matches: [], total: 0 };
+    }
+
+    const ranked: Array<{ token: TokenData; match: SearchMatch }> = [];
+    for (const token of tokens) {
+      const match = this.matchToken(token, query.trim(), needle);
+      if (match) {
+        ranked.push({ token, match });
+      }
+    }
+
+    ranked.sort((a, b) => b.match.score - a.match.score || (b.token.volume.h24 || 0) - (a.token.volume.h24 || 0));
+    const page = ranked.slice(0, limit);
+
+    return {
+      tokens: page.map(entry => entry.token),
+      matches: page.map(entry => entry.match),
+      total: ranked.length,
+    };
+  }
+
+  /**
+   * Best match for a token across its fields, or null
+   */
+  private matchToken(token: TokenData, query: string, needle: string): SearchMatch | null {
+    const candidates: SearchMatch[] = [];
+    const add = (field: SearchField, type: SearchMatchType | null, penalty: number = 0) => {
+      if (type) {
+        candidates.push({ tokenId: token.tokenId, field, type, score: TYPE_SCORES[type] + FIELD_BONUS[field] - penalty });
+      }
+    };
+
+    for (const field of ['symbol', 'name'] as const) {
+      const text = token[field] || '';
+      const value = this.normalize(text);
+      if (!value) continue;
+
+      if (value === needle) {
+        add(field, 'exact');
+      } else if (value.startsWith(needle)) {
+        // Closer to the full value ranks higher ("pengu" → PENGU before PENGUIN)
+        add(field, 'prefix', Math.min(10, value.length - needle.length));
+      } else if (this.getWords(text).some(word => word.startsWith(needle))) {
+        add(field, 'word');
+      } else if (needle.length >= 3 && value.includes(needle)) {
+        add(field, 'substring');
+      } else {
+        const distance = this.getFuzzyDistance(needle, value);
+        if (distance !== null) {
+          add(field, 'fuzzy', distance * 10);
+        }
+      }
+    }
+
+    // Addresses are case-sensitive on Solana; compare as typed, then case-insensitively for EVM
+    const address = token.tokenId;
+    if (query.length >= MIN_ADDRESS_QUERY) {
+      if (address === query || address.toLowerCase() === query.toLowerCase()) {
+        add('address', 'exact');
+      } else if (address.startsWith(query) || address.toLowerCase().startsWith(query.toLowerCase())) {
+        add('address', 'prefix');
+      }
+    }
+
+    return candidates.reduce<SearchMatch | null>((best, match) => (!best || match.score > best.score ? match : best), null);
+  }
+
+  /**
+   * Edit distance between the query and the value (or the value's prefix of
+   * the query's length, so typos in a partial name still match). Null when
+   * beyond the allowed distance for the query length.
+   */
+  private getFuzzyDistance(needle: string, value: string): number | null {
+    if (needle.length < 3) {
+      return null;
+    }
+    const maxDistance = needle.length <= 5 ? 1 : 2;
+    const distance = Math.min(
+      this.getEditDistance(needle, value),
+      this.getEditDistance(needle, value.slice(0, needle.length)),
+    );
+    return distance <= maxDistance ? distance : null;
+  }
+
+  /**
+   * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+   */
+  private getEditDistance(a: string, b: string): number {
+    const rows: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+      rows.push([i]);
+    }
+    for (let j = 1; j <= b.length; j++) {
+      (rows[0] as number[])[j] = j;
+    }
+
+    for (let i = 1; i <= a.length; i++) {
+      const row = rows[i] as number[];
+      const previous = rows[i - 1] as number[];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        let distance = Math.min(
+          (previous[j] as number) + 1,
+          (row[j - 1] as number) + 1,
+          (previous[j - 1] as number) + cost,
+        );
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          distance = Math.min(distance, (rows[i - 2] as number[])[j - 2] as number + 1);
+        }
+        row[j] = distance;
+      }
+    }
+    return (rows[a.length] as number[])[b.length] as number;
+  }
+
+  /**
+   * Lowercase with spaces and punctuation removed ("dog wif hat" → "dogwifhat")
+   */
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+
+  /**
+   * Normalized words of a name
+   */
+  private getWords(value: string): string[] {
+    return value.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  }
+}
+
+// Singleton instance
+export const tokenSearch = new TokenSearch();
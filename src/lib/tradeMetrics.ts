@@ -0,0 +1,35 @@
+/**
+ * Trade metrics - buy-pressure figures derived from volume and transaction counts
+ */
+
+import { TimeWindow, TokenData, TradeMetrics } from '../types/token.js';
+import { TIME_WINDOWS } from './sourceMerger.js';
+
+/**
+ * Derive trade metrics for one window. Upstream volume is not split by side,
+ * so net buy volume assumes buys and sells have the same average size.
+ */
+export function computeTradeMetrics(volume: number, buys: number, sells: number): TradeMetrics {
+  const trades = buys + sells;
+  return {
+    buySellRatio: sells > 0 ? buys / sells : null,
+    netBuyVolume: trades > 0 ? (volume * (buys - sells)) / trades : null,
+    avgTradeSize: trades > 0 ? volume / trades : null,
+  };
+}
+
+/**
+ * Derive trade metrics for every window of a token
+ */
+export function getTradeMetrics(token: Pick<TokenData, 'volume' | 'transactions'>): Record<TimeWindow, TradeMetrics> {
+  return Object.fromEntries(
+    TIME_WINDOWS.map(window => [
+      window,
+      computeTradeMetrics(
+        token.volume[window] || 0,
+        token.transactions[window]?.buys || 0,
+        token.transactions[window]?.sells || 0
+      ),
+    ])
+  ) as Record<TimeWindow, TradeMetrics>;
+}
@@ -4,14 +4,18 @@
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
-import { TokenData, PriceUpdateEvent, VolumeSpikeEvent } from '../types/token.js';
+import { TokenData, PriceUpdateEvent, WindowUpdate, DataQualityEvent, ArbitrageOpportunity, AnomalyEvent, LiquidityDrainEvent, NewPairEvent, RegistryChangeEvent, QuoteCurrency, ScreenMatchEvent } from '../types/token.js';
 import { tokenAggregationService } from './tokenAggregation.js';
+import { quoteService, QUOTE_CURRENCIES } from './quoteService.js';
+import { screenService } from './screenService.js';
+import { getTokenKey } from './addressValidation.js';
 
 class WebSocketService {
   private io: SocketIOServer | null = null;
   private connectedClients: Set<string> = new Set();
   private previousTokenData: Map<string, TokenData> = new Map();
-  private readonly VOLUME_SPIKE_THRESHOLD = 1.5; // 50% increase
+  // Quote currency chosen by each socket (sockets without one get USD only)
+  private socketQuotes: Map<string, QuoteCurrency> = new Map();
 
   /**
    * Initialize WebSocket server
@@ -43,9 +47,30 @@ class WebSocketService {
       this.connectedClients.add(socket.id);
       console.log(`🔌 Client connected: ${socket.id} (Total: ${this.connectedClients.size})`);
 
+      // Quote currency can be set at connect time (?quote=EUR)
+      const handshakeQuote = socket.handshake.query.quote;
+      if (typeof handshakeQuote === 'string' && handshakeQuote) {
+        this.setQuote(socket, handshakeQuote);
+      }
+
       // Send initial data on connection
       this.sendInitialData(socket);
 
+      // Handle saved screen subscriptions (enter/exit events)
+      socket.on('subscribe_screen', (screenId: string) => {
+        this.subscribeScreen(socket, screenId);
+      });
+
+      socket.on('unsubscribe_screen', (screenId: string) => {
+        console.log(`📴 Client ${socket.id} unsubscribed from screen ${screenId}`);
+        socket.leave(`screen:${screenId}`);
+      });
+
+      // Handle quote currency changes
+      socket.on('set_quote', (currency: string) => {
+        this.setQuote(socket, currency);
+      });
+
       // Handle subscription to specific tokens
       socket.on('subscribe', (tokenIds: string[]) => {
         console.log(`📡 Client ${socket.id} subscribed to tokens:`, tokenIds);
@@ -61,6 +86,7 @@ class WebSocketService {
       // Handle disconnect
       socket.on('disconnect', (reason) => {
         this.connectedClients.delete(socket.id);
+        this.socketQuotes.delete(socket.id);
         console.log(`🔌 Client disconnected: ${socket.id} - Reason: ${reason} (Total: ${this.connectedClients.size})`);
       });
 
@@ -82,15 +108,159 @@ class WebSocketService {
     });
   }
 
+  /**
+   * User of a socket, from the handshake (null when not identified)
+   */
+  private getSocketUser(socket: Socket): string | null {
+    const header = socket.handshake.headers['x-user-id'];
+    const auth = socket.handshake.auth?.userId;
+    const user = typeof header === 'string' ? header : typeof auth === 'string' ? auth : '';
+    return user.trim() || null;
+  }
+
+  /**
+   * Subscribe a socket to one of its user's saved screens and send the
+   * tokens currently in its results, the baseline for later screen_match
+   * events. The user comes from the X-User-Id header or `auth.userId` of the
+   * handshake.
+   */
+  private async subscribeScreen(socket: Socket, screenId: string): Promise<void> {
+    const owner = this.getSocketUser(socket);
+    if (!owner) {
+      socket.emit('error', {
+        type: 'error',
+        message: 'X-User-Id header (or auth.userId) is required to subscribe to screens',
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    const screen = typeof screenId === 'string' ? screenService.getScreen(screenId) : undefined;
+    if (!screen || screen.owner !== owner) {
+      socket.emit('error', {
+        type: 'error',
+        message: `Screen ${screenId} not found`,
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    try {
+      const tokenIds = await screenService.getMatches(screen.id);
+      socket.join(`screen:${screen.id}`);
+      socket.emit('screen_subscribed', {
+        type: 'screen_subscribed',
+        data: { screenId: screen.id, screenName: screen.name, tokenIds },
+        timestamp: new Date(),
+      });
+      console.log(`📡 Client ${socket.id} subscribed to screen "${screen.name}" (${tokenIds.length} token(s))`);
+    } catch (error) {
+      console.error(`❌ Error subscribing to screen ${screen.id}:`, error);
+      socket.emit('error', {
+        type: 'error',
+        message: 'Failed to run screen',
+        timestamp: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Ids of saved screens with at least one subscribed socket
+   */
+  getWatchedScreens(): string[] {
+    if (!this.io) return [];
+    return Array.from(this.io.sockets.adapter.rooms.keys())
+      .filter(room => room.startsWith('screen:'))
+      .map(room => room.slice('screen:'.length));
+  }
+
+  /**
+   * Send screen enter/exit events to the screen's subscribers
+   */
+  broadcastScreenMatches(events: ScreenMatchEvent[]): void {
+    if (!this.io || events.length === 0) return;
+
+    for (const event of events) {
+      this.io.to(`screen:${event.screenId}`).emit('screen_match', {
+        type: 'screen_match',
+        data: event,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(`🔎 [WebSocket] Broadcasted ${events.length} screen enter/exit event(s)`);
+  }
+
+  /**
+   * Set a socket's quote currency (USD clears it) and confirm with a quote event
+   */
+  private setQuote(socket: Socket, currency: string): void {
+    const quote = typeof currency === 'string' ? quoteService.parseCurrency(currency) : null;
+    if (!quote) {
+      socket.emit('error', {
+        type: 'error',
+        message: `Invalid quote currency. Expected one of: ${QUOTE_CURRENCIES.join(', ')}`,
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    if (quote === 'USD') {
+      this.socketQuotes.delete(socket.id);
+    } else {
+      this.socketQuotes.set(socket.id, quote);
+    }
+
+    socket.emit('quote', {
+      type: 'quote',
+      currency: quote,
+      rate: quoteService.getRate(quote),
+      timestamp: new Date(),
+    });
+    console.log(`💱 Client ${socket.id} quoting in ${quote}`);
+  }
+
+  /**
+   * Add quoted values to a token for a socket's quote currency. Tokens are
+   * sent without them while no rate is available.
+   */
+  private withQuote(token: TokenData, quote: QuoteCurrency | undefined): TokenData {
+    const values = quote ? quoteService.getQuotedValues(token, quote) : null;
+    return values ? { ...token, quote: values } : token;
+  }
+
+  /**
+   * Emit an event to a room (or everyone). Sockets with a quote currency get
+   * a payload built for their currency; everyone else gets the USD payload.
+   */
+  private emitQuoted(room: string | null, event: string, build: (quote: QuoteCurrency | undefined) => unknown): void {
+    if (!this.io) return;
+
+    const quotedSockets = Array.from(this.socketQuotes.keys());
+    (room ? this.io.to(room) : this.io).except(quotedSockets).emit(event, build(undefined));
+
+    const payloads: Map<QuoteCurrency, unknown> = new Map();
+    for (const [socketId, quote] of this.socketQuotes) {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (!socket || (room && !socket.rooms.has(room))) continue;
+
+      if (!payloads.has(quote)) {
+        payloads.set(quote, build(quote));
+      }
+      socket.emit(event, payloads.get(quote));
+    }
+  }
+
   /**
    * Send initial data to newly connected client
    */
   private async sendInitialData(socket: Socket): Promise<void> {
     try {
+      const quote = this.socketQuotes.get(socket.id);
       const tokens = await tokenAggregationService.aggregateAllTokens();
       socket.emit('initial_data', {
         type: 'initial_data',
-        data: tokens,
+        data: tokens.map(token => this.withQuote(token, quote)),
         timestamp: new Date(),
       });
       console.log(`📤 Sent initial data to client ${socket.id}`);
@@ -104,6 +274,18 @@ class WebSocketService {
     }
   }
 
+  /**
+   * Collect a token's values for a sub-hour window
+   */
+  private getWindowUpdate(token: TokenData, window: 'm5' | 'm15' | 'm30'): WindowUpdate {
+    return {
+      priceChange: token.priceChange[window] || 0,
+      volume: token.volume[window] || 0,
+      buys: token.transactions[window]?.buys || 0,
+      sells: token.transactions[window]?.sells || 0,
+    };
+  }
+
   /**
    * Broadcast price updates to all connected clients
    */
@@ -116,84 +298,56 @@ class WebSocketService {
     console.log(`\n📡 [WebSocket] Broadcasting updates to ${this.connectedClients.size} client(s)...`);
 
     const updates: PriceUpdateEvent[] = [];
-    const volumeSpikes: VolumeSpikeEvent[] = [];
+    // Token behind each update, for quote conversion
+    const updatedTokens: Map<PriceUpdateEvent, TokenData> = new Map();
 
     for (const token of tokens) {
-      const previous = this.previousTokenData.get(token.tokenId);
+      const key = getTokenKey(token.chainId, token.tokenId);
+      const previous = this.previousTokenData.get(key);
 
       // Detect price changes
       if (previous && previous.priceUsd !== token.priceUsd) {
         const priceChange = ((token.priceUsd - previous.priceUsd) / previous.priceUsd) * 100;
         
-        updates.push({
+        const update: PriceUpdateEvent = {
           tokenId: token.tokenId,
           symbol: token.symbol,
           priceUsd: token.priceUsd,
           priceChange,
           volume: token.volume.h24,
+          m5: this.getWindowUpdate(token, 'm5'),
+          m15: this.getWindowUpdate(token, 'm15'),
+          m30: this.getWindowUpdate(token, 'm30'),
           timestamp: new Date(),
-        });
+        };
+        updates.push(update);
+        updatedTokens.set(update, token);
 
         // Emit to clients subscribed to this specific token
-        this.io.to(`token:${token.tokenId}`).emit('price_update', {
+        this.emitQuoted(`token:${token.tokenId}`, 'price_update', quote => ({
           type: 'price_update',
-          data: updates[updates.length - 1],
+          data: this.quoteUpdate(update, token, quote),
           timestamp: new Date(),
-        });
-      }
-
-      // Detect volume spikes
-      if (previous && token.volume.h24 > 0) {
-        const volumeIncrease = token.volume.h24 / (previous.volume.h24 || 1);
-        
-        if (volumeIncrease >= this.VOLUME_SPIKE_THRESHOLD) {
-          const percentageIncrease = ((volumeIncrease - 1) * 100);
-          
-          volumeSpikes.push({
-            tokenId: token.tokenId,
-            symbol: token.symbol,
-            volume: token.volume.h24,
-            previousVolume: previous.volume.h24,
-            percentageIncrease,
-            timestamp: new Date(),
-          });
-
-          // Emit volume spike event
-          this.io.to(`token:${token.tokenId}`).emit('volume_spike', {
-            type: 'volume_spike',
-            data: volumeSpikes[volumeSpikes.length - 1],
-            timestamp: new Date(),
-          });
-        }
+        }));
       }
 
       // Update previous data
-      this.previousTokenData.set(token.tokenId, token);
+      this.previousTokenData.set(key, token);
     }
 
     // Broadcast all updates to general subscribers
     if (updates.length > 0) {
-      this.io.emit('price_updates', {
+      this.emitQuoted(null, 'price_updates', quote => ({
         type: 'price_updates',
-        data: updates,
+        data: updates.map(update => this.quoteUpdate(update, updatedTokens.get(update) as TokenData, quote)),
         count: updates.length,
         timestamp: new Date(),
-      });
+      }));
       console.log(`✅ [WebSocket] Broadcasted ${updates.length} price update(s)`);
     } else {
       console.log(`ℹ️  [WebSocket] No price changes detected`);
     }
 
-    if (volumeSpikes.length > 0) {
-      this.io.emit('volume_spikes', {
-        type: 'volume_spikes',
-        data: volumeSpikes,
-        count: volumeSpikes.length,
-        timestamp: new Date(),
-      });
-      console.log(`🚀 [WebSocket] Broadcasted ${volumeSpikes.length} volume spike(s)`);
-    }
-    
     // Always broadcast a heartbeat with token count
     this.io.emit('heartbeat', {
       type: 'heartbeat',
@@ -203,6 +357,133 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Add quoted values to a price update for a socket's quote currency
+   */
+  private quoteUpdate(update: PriceUpdateEvent, token: TokenData, quote: QuoteCurrency | undefined): PriceUpdateEvent {
+    const values = quote ? quoteService.getQuotedValues(token, quote) : null;
+    return values ? { ...update, quote: values } : update;
+  }
+
+  /**
+   * Broadcast anomalies once per socket: subscribers of a token get its
+   * anomalies as `anomaly`, and every socket gets the rest as an `anomalies`
+   * batch
+   */
+  broadcastAnomalies(events: AnomalyEvent[]): void {
+    if (!this.io || events.length === 0) return;
+
+    for (const socket of this.io.sockets.sockets.values()) {
+      const subscribed = events.filter(event => socket.rooms.has(`token:${event.tokenId}`));
+      for (const event of subscribed) {
+        socket.emit('anomaly', {
+          type: 'anomaly',
+          data: event,
+          timestamp: new Date(),
+        });
+      }
+
+      const rest = events.filter(event => !subscribed.includes(event));
+      if (rest.length > 0) {
+        socket.emit('anomalies', {
+          type: 'anomalies',
+          data: rest,
+          count: rest.length,
+          timestamp: new Date(),
+        });
+      }
+    }
+    console.log(`🚨 [WebSocket] Broadcasted ${events.length} anomal${events.length === 1 ? 'y' : 'ies'}`);
+  }
+
+  /**
+   * Broadcast liquidity drain / sell pressure alerts
+   */
+  broadcastLiquidityDrains(events: LiquidityDrainEvent[]): void {
+    if (!this.io || events.length === 0) return;
+
+    for (const event of events) {
+      this.io.emit('liquidity_drain', {
+        type: 'liquidity_drain',
+        data: event,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(`🩸 [WebSocket] Broadcasted ${events.length} liquidity drain alert(s)`);
+  }
+
+  /**
+   * Broadcast pools that newly appeared for tracked tokens
+   */
+  broadcastNewPairs(events: NewPairEvent[]): void {
+    if (!this.io || events.length === 0) return;
+
+    for (const event of events) {
+      this.io.emit('new_pair', {
+        type: 'new_pair',
+        data: event,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(`🆕 [WebSocket] Broadcasted ${events.length} new pair(s)`);
+  }
+
+  /**
+   * Broadcast a token registry change. Sockets leave the room of a token that
+   * was removed or disabled, since it no longer receives updates.
+   */
+  broadcastRegistryChange(event: RegistryChangeEvent): void {
+    if (!this.io) return;
+
+    if (event.action === 'removed' || !event.token.enabled) {
+      this.io.socketsLeave(`token:${event.tokenId}`);
+    }
+
+    this.io.emit('token_registry', {
+      type: 'token_registry',
+      data: event,
+      timestamp: new Date(),
+    });
+
+    console.log(`📋 [WebSocket] Broadcasted registry change: ${event.token.symbol} ${event.action}`);
+  }
+
+  /**
+   * Broadcast data quality alerts for tokens whose confidence dropped
+   */
+  broadcastDataQuality(events: DataQualityEvent[]): void {
+    if (!this.io || events.length === 0) return;
+
+    for (const event of events) {
+      this.io.emit('data_quality', {
+        type: 'data_quality',
+        data: event,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(`⚠️  [WebSocket] Broadcasted ${events.length} data quality alert(s)`);
+  }
+
+  /**
+   * Broadcast newly detected cross-DEX arbitrage opportunities
+   */
+  broadcastArbitrageOpportunities(opportunities: ArbitrageOpportunity[]): void {
+    if (!this.io || opportunities.length === 0) return;
+
+    for (const opportunity of opportunities) {
+      this.io.emit('arbitrage_opportunity', {
+        type: 'arbitrage_opportunity',
+        data: opportunity,
+        timestamp: new Date(),
+      });
+    }
+
+    console.log(`💱 [WebSocket] Broadcasted ${opportunities.length} arbitrage opportunit${opportunities.length === 1 ? 'y' : 'ies'}`);
+  }
+
   /**
    * Send update for a specific token
    */
@@ -213,11 +494,11 @@ class WebSocketService {
       const token = await tokenAggregationService.aggregateToken(tokenId);
       if (!token) return;
 
-      this.io.to(`token:${tokenId}`).emit('token_update', {
+      this.emitQuoted(`token:${tokenId}`, 'token_update', quote => ({
         type: 'price_update',
-        data: token,
+        data: this.withQuote(token, quote),
         timestamp: new Date(),
-      });
+      }));
 
       console.log(`📡 Sent update for token ${tokenId}`);
     } catch (error) {
@@ -261,6 +542,7 @@ class WebSocketService {
     if (this.io) {
       this.io.close();
       this.connectedClients.clear();
+      this.socketQuotes.clear();
       console.log('❌ WebSocket server closed');
     }
   }
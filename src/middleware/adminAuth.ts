@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { ForbiddenError, UnauthorizedError } from "../lib/customErrors.js";
+
+/**
+ * Admin route guard - requires the ADMIN_API_KEY in the X-Admin-Key header
+ * (or as a Bearer token). Admin routes are disabled when no key is set.
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const requireAdminKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return next(new ForbiddenError("Admin API is disabled. Set ADMIN_API_KEY to enable it"));
+  }
+
+  const authorization = req.get("Authorization");
+  const provided = req.get("X-Admin-Key") ||
+    (authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : undefined);
+  if (!provided) {
+    return next(new UnauthorizedError("X-Admin-Key header is required"));
+  }
+
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(provided);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return next(new ForbiddenError("Invalid admin key"));
+  }
+
+  next();
+};
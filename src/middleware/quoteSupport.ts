@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from "express";
+import { BadRequestError } from "../lib/customErrors.js";
+
+/**
+ * Reject ?quote= on routes that only return USD values, so clients do not
+ * silently get USD when they asked for another currency
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const rejectQuote = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.query.quote !== undefined) {
+    return next(new BadRequestError("quote is not supported on this route; values are in USD"));
+  }
+  next();
+};
@@ -0,0 +1,28 @@
+/**
+ * Event log model - alerts raised by the pipeline, kept for later review
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { EventLogEntry } from '../types/token.js';
+
+// Keep 90 days of events
+const EVENT_RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+const eventLogSchema = new Schema<EventLogEntry>(
+  {
+    type: { type: String, required: true },
+    tokenId: { type: String, required: true },
+    symbol: String,
+    data: Schema.Types.Mixed,
+    timestamp: { type: Date, required: true },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+eventLogSchema.index({ timestamp: 1 }, { expireAfterSeconds: EVENT_RETENTION_SECONDS });
+eventLogSchema.index({ tokenId: 1, timestamp: -1 });
+eventLogSchema.index({ type: 1, timestamp: -1 });
+
+export const EventLogModel = mongoose.model<EventLogEntry>('EventLog', eventLogSchema);
@@ -0,0 +1,30 @@
+/**
+ * Registry token model - the tracked token universe, managed through the admin API
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { RegistryToken } from '../types/token.js';
+
+const registryTokenSchema = new Schema<RegistryToken>(
+  {
+    tokenAddress: { type: String, required: true },
+    name: { type: String, required: true },
+    symbol: { type: String, required: true },
+    chain: { type: String, required: true, default: 'solana' },
+    tags: { type: [String], default: [] },
+    enabled: { type: Boolean, default: true },
+    pinnedDexId: String,
+    pinnedPairAddress: String,
+    anomalyZThreshold: Number,
+    discovery: Schema.Types.Mixed,
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// The same address may be registered on several chains
+registryTokenSchema.index({ chain: 1, tokenAddress: 1 }, { unique: true });
+
+export const RegistryTokenModel = mongoose.model<RegistryToken>('RegistryToken', registryTokenSchema);
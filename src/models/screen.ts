@@ -0,0 +1,24 @@
+/**
+ * Screen model - saved screener presets, owned by the user that created them
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { Screen } from '../types/token.js';
+
+const screenSchema = new Schema<Omit<Screen, 'id'>>(
+  {
+    owner: { type: String, required: true },
+    name: { type: String, required: true },
+    filters: { type: Schema.Types.Mixed, default: {} },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+    minimize: false,
+  }
+);
+
+// Screen names are unique per user
+screenSchema.index({ owner: 1, name: 1 }, { unique: true });
+
+export const ScreenModel = mongoose.model<Omit<Screen, 'id'>>('Screen', screenSchema);
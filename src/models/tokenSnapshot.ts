@@ -0,0 +1,65 @@
+/**
+ * Token snapshot model - time-series of aggregated token data
+ */
+
+import mongoose, { Schema } from 'mongoose';
+import { TokenData } from '../types/token.js';
+
+// Keep 30 days of snapshots
+const SNAPSHOT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export interface TokenSnapshot {
+  tokenId: string;
+  // Missing on snapshots stored before multi-chain support (all on the default chain)
+  chainId: string;
+  timestamp: Date;
+  priceUsd: number;
+  priceNative: number;
+  priceChange: TokenData['priceChange'];
+  volume: TokenData['volume'];
+  transactions: TokenData['transactions'];
+  fdv: number;
+  marketCap: number | null;
+  liquidity: number;
+  sources: string[];
+}
+
+const windowSchema = { m5: Number, m15: Number, m30: Number, h1: Number, h6: Number, h24: Number };
+const txnsSchema = { buys: Number, sells: Number, buyers: Number, sellers: Number };
+
+const tokenSnapshotSchema = new Schema<TokenSnapshot>(
+  {
+    tokenId: { type: String, required: true },
+    chainId: String,
+    timestamp: { type: Date, required: true },
+    priceUsd: { type: Number, required: true },
+    priceNative: Number,
+    priceChange: windowSchema,
+    volume: windowSchema,
+    transactions: {
+      m5: txnsSchema,
+      m15: txnsSchema,
+      m30: txnsSchema,
+      h1: txnsSchema,
+      h6: txnsSchema,
+      h24: txnsSchema,
+    },
+    fdv: Number,
+    marketCap: { type: Number, default: null },
+    liquidity: Number,
+    sources: [String],
+  },
+  {
+    timeseries: {
+      timeField: 'timestamp',
+      metaField: 'tokenId',
+      granularity: 'minutes',
+    },
+    expireAfterSeconds: SNAPSHOT_RETENTION_SECONDS,
+    versionKey: false,
+  }
+);
+
+tokenSnapshotSchema.index({ tokenId: 1, timestamp: -1 });
+
+export const TokenSnapshotModel = mongoose.model<TokenSnapshot>('TokenSnapshot', tokenSnapshotSchema);
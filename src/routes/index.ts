@@ -1,18 +1,51 @@
 import express from "express";
 import { tokenController } from "../controllers/tokenController.js";
+import { historyController } from "../controllers/historyController.js";
+import { arbitrageController } from "../controllers/arbitrageController.js";
+import { eventController } from "../controllers/eventController.js";
+import { adminController } from "../controllers/adminController.js";
+import { screenController } from "../controllers/screenController.js";
+import { requireAdminKey } from "../middleware/adminAuth.js";
+import { rejectQuote } from "../middleware/quoteSupport.js";
 
 const router = express.Router();
 
 // Health check
 router.get("/health", tokenController.healthCheck.bind(tokenController));
 
-// Token routes
+// Token routes (?quote= is supported where the response holds TokenData, rejected on USD-only routes)
 router.get("/tokens", tokenController.getAllTokens.bind(tokenController));
 router.get("/tokens/available", tokenController.getAvailableTokens.bind(tokenController));
+router.get("/tokens/search", tokenController.searchTokens.bind(tokenController));
 router.get("/tokens/:tokenId", tokenController.getTokenById.bind(tokenController));
+router.get("/tokens/:tokenId/history", rejectQuote, historyController.getHistory.bind(historyController));
+router.get("/tokens/:tokenId/candles", rejectQuote, historyController.getCandles.bind(historyController));
+router.get("/tokens/:tokenId/indicators", rejectQuote, historyController.getIndicators.bind(historyController));
+router.get("/tokens/:tokenId/profile", tokenController.getTokenProfile.bind(tokenController));
+router.get("/tokens/:tokenId/pairs", rejectQuote, tokenController.getTokenPairs.bind(tokenController));
+router.get("/tokens/:tokenId/price-impact", rejectQuote, tokenController.getPriceImpact.bind(tokenController));
 router.post("/tokens/:tokenId/refresh", tokenController.refreshToken.bind(tokenController));
 router.post("/tokens/refresh", tokenController.refreshAllTokens.bind(tokenController));
 
+// Cross-DEX arbitrage
+router.get("/arbitrage", rejectQuote, arbitrageController.getOpportunities.bind(arbitrageController));
+
+// Events log (liquidity drains, ...)
+router.get("/events", rejectQuote, eventController.getEvents.bind(eventController));
+
+// Token registry administration (requires ADMIN_API_KEY)
+router.get("/admin/tokens", requireAdminKey, adminController.listTokens.bind(adminController));
+router.post("/admin/tokens", requireAdminKey, adminController.createToken.bind(adminController));
+router.patch("/admin/tokens/:address", requireAdminKey, adminController.updateToken.bind(adminController));
+router.delete("/admin/tokens/:address", requireAdminKey, adminController.deleteToken.bind(adminController));
+
+// Saved screens (per user, identified by the X-User-Id header)
+router.get("/screens", screenController.listScreens.bind(screenController));
+router.post("/screens", screenController.createScreen.bind(screenController));
+router.get("/screens/:id", screenController.getScreen.bind(screenController));
+router.delete("/screens/:id", screenController.deleteScreen.bind(screenController));
+router.get("/screens/:id/results", screenController.getResults.bind(screenController));
+
 // Cache management
 router.get("/cache/stats", tokenController.getCacheStats.bind(tokenController));
 router.delete("/cache", tokenController.clearCache.bind(tokenController));
@@ -20,6 +53,13 @@ router.delete("/cache", tokenController.clearCache.bind(tokenController));
 // Rate limit status
 router.get("/rate-limit", tokenController.getRateLimitStatus.bind(tokenController));
 
+// Market data providers
+router.get("/providers", tokenController.getProviders.bind(tokenController));
+router.get("/providers/merge-strategies", tokenController.getMergeStrategies.bind(tokenController));
+
+// Reference rates for the quote parameter
+router.get("/quotes", tokenController.getQuoteRates.bind(tokenController));
+
 // Scheduler management
 router.get("/scheduler/status", tokenController.getSchedulerStatus.bind(tokenController));
 router.post("/scheduler/trigger", tokenController.triggerUpdate.bind(tokenController));
@@ -7,6 +7,37 @@ declare global {
       REDIS_DB_HOST?: string;
       REDIS_DB_PORT?: string;
       REDIS_DB_PASS?: string;
+      MARKET_DATA_PROVIDERS?: string;
+      MERGE_STRATEGIES?: string;
+      PRICE_TOLERANCE_PCT?: string;
+      VOLUME_TOLERANCE_PCT?: string;
+      DATA_QUALITY_THRESHOLD?: string;
+      ARBITRAGE_THRESHOLD_BPS?: string;
+      ARBITRAGE_FEE_BPS?: string;
+      ARBITRAGE_MIN_LIQUIDITY_USD?: string;
+      PRICE_IMPACT_SIZE_USD?: string;
+      PRICE_IMPACT_MAX_POOLS?: string;
+      PROFILE_REFRESH_HOURS?: string;
+      ANOMALY_Z_THRESHOLD?: string;
+      ANOMALY_BASELINE_SIZE?: string;
+      ANOMALY_MIN_SAMPLES?: string;
+      ANOMALY_COOLDOWN_MINUTES?: string;
+      LIQUIDITY_DRAIN_PCT?: string;
+      LIQUIDITY_DRAIN_WINDOW_MINUTES?: string;
+      LIQUIDITY_DRAIN_MIN_USD?: string;
+      SELL_PRESSURE_RATIO?: string;
+      SELL_PRESSURE_PRICE_DROP_PCT?: string;
+      NEW_PAIR_MAX_AGE_HOURS?: string;
+      DISCOVERY_ENABLED?: string;
+      DISCOVERY_INTERVAL_MINUTES?: string;
+      DISCOVERY_MIN_LIQUIDITY_USD?: string;
+      DISCOVERY_MIN_AGE_HOURS?: string;
+      DISCOVERY_MIN_VOLUME_USD?: string;
+      DISCOVERY_MAX_TOKENS?: string;
+      QUOTE_RATE_PROVIDER?: string;
+      QUOTE_STATIC_RATES?: string;
+      QUOTE_REFRESH_SECONDS?: string;
+      ADMIN_API_KEY?: string;
     }
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * Market data provider contract and related type definitions
+ */
+
+import { QuoteCurrency, TimeWindow, TokenData, TokenMetadata, TokenPair, TokenProfile } from './token.js';
+
+// Requests allowed per rolling window for a single provider
+export interface RateLimitPolicy {
+  maxRequests: number;
+  windowMs: number;
+}
+
+// Exponential backoff configuration
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+// Per-request overrides of the provider's retry policy and timeout
+export interface RequestOptions {
+  retry?: RetryConfig;
+  timeoutMs?: number;
+  // Fail instead of waiting for the next window when the rate limit is used up
+  failWhenLimited?: boolean;
+}
+
+// Health snapshot reported by a provider
+export interface ProviderHealth {
+  name: string;
+  enabled: boolean;
+  healthy: boolean;
+  lastSuccess: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+// Rate limit snapshot reported by a provider
+export interface ProviderRateLimitStatus {
+  remaining: number;
+  total: number;
+  resetTime: Date;
+}
+
+/**
+ * A source of market data for tokens.
+ *
+ * `fetch` returns the provider's raw payload (or null when the provider has
+ * nothing for the token) and `normalize` turns that payload into the shared
+ * `TokenData` shape so the aggregation layer never needs to know the upstream
+ * format.
+ */
+export interface MarketDataProvider<TRaw = unknown> {
+  readonly name: string;
+  readonly rateLimit: RateLimitPolicy;
+  // Rolling windows this provider actually reports
+  readonly windows: readonly TimeWindow[];
+  enabled: boolean;
+  // `chain` is a chain id from lib/chains.ts (defaults to Solana)
+  fetch(tokenAddress: string, chain?: string, options?: RequestOptions): Promise<TRaw | null>;
+  normalize(raw: TRaw, metadata: TokenMetadata): Partial<TokenData> | null;
+  // Every pair/pool in the raw payload (optional for providers without pair data)
+  normalizePairs?(raw: TRaw, metadata: TokenMetadata): TokenPair[];
+  // Slow-changing token metadata (optional for providers without it)
+  normalizeProfile?(raw: TRaw, metadata: TokenMetadata): TokenProfile | null;
+  getHealth(): ProviderHealth;
+  getRateLimitStatus(): ProviderRateLimitStatus;
+  // Enabled, healthy and with more than `reserve` requests left in the window
+  canServeRequest(reserve?: number): boolean;
+}
+
+// Raw payload from one provider and when it was fetched
+export interface ProviderResult {
+  data: unknown;
+  fetchedAt: Date;
+}
+
+// Raw payloads for one token keyed by provider name (null if the fetch failed)
+export type ProviderResults = Map<string, ProviderResult | null>;
+
+// How a merged field is resolved when several sources report it
+export type MergeStrategy = 'average' | 'median' | 'liquidity-weighted' | 'freshest' | 'prefer-source';
+
+// Fields that can be configured with a merge strategy
+export type MergeField =
+  | 'priceUsd'
+  | 'priceNative'
+  | 'priceChange'
+  | 'volume'
+  | 'transactions'
+  | 'liquidity'
+  | 'fdv'
+  | 'marketCap';
+
+// Strategy for a field; `preferredSources` is used by prefer-source
+export interface FieldMergeConfig {
+  strategy: MergeStrategy;
+  preferredSources?: string[];
+}
+
+// Reference exchange rates: USD per unit of each currency (e.g. SOL: 150, EUR: 1.08)
+export type ReferenceRates = Partial<Record<QuoteCurrency, number>>;
+
+/**
+ * A source of reference exchange rates used to quote USD values in other
+ * currencies. Currencies the provider cannot price are left out.
+ */
+export interface ReferenceRateProvider {
+  readonly name: string;
+  fetchRates(currencies: readonly QuoteCurrency[]): Promise<ReferenceRates>;
+}
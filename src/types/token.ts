@@ -2,6 +2,11 @@
  * Token and API response type definitions
  */
 
+import { MergeStrategy } from './provider.js';
+
+// Rolling windows reported by upstream sources
+export type TimeWindow = 'm5' | 'm15' | 'm30' | 'h1' | 'h6' | 'h24';
+
 // Base token data structure
 export interface TokenData {
   tokenId: string;
@@ -11,28 +16,28 @@ export interface TokenData {
   priceUsd: number;
   priceNative: number;
   priceChange: {
+    m5: number;
+    m15: number;
+    m30: number;
     h1: number;
     h6: number;
     h24: number;
   };
   volume: {
+    m5: number;
+    m15: number;
+    m30: number;
     h1: number;
     h6: number;
     h24: number;
   };
   transactions: {
-    h1: {
-      buys: number;
-      sells: number;
-    };
-    h6: {
-      buys: number;
-      sells: number;
-    };
-    h24: {
-      buys: number;
-      sells: number;
-    };
+    m5: WindowTransactions;
+    m15: WindowTransactions;
+    m30: WindowTransactions;
+    h1: WindowTransactions;
+    h6: WindowTransactions;
+    h24: WindowTransactions;
   };
   fdv: number;
   marketCap: number | null;
@@ -41,6 +46,104 @@ export interface TokenData {
   dexId: string;
   sources: string[];
   lastUpdated: Date;
+  d7?: SevenDayStats;
+  provenance?: Record<string, FieldProvenance>;
+  confidence?: number;
+  dataQuality?: DataQuality;
+  profile?: TokenProfile | null;
+  tradeMetrics?: Record<TimeWindow, TradeMetrics>;
+  indicators?: Record<string, number | null>;
+  createdAt?: Date | null; // Creation time of the token's oldest known pool
+  ageHours?: number | null;
+  quote?: QuotedValues; // Present when a quote currency was requested
+}
+
+// Currencies that USD values can be quoted in
+export type QuoteCurrency = 'USD' | 'SOL' | 'BTC' | 'ETH' | 'EUR' | 'GBP' | 'JPY' | 'CHF' | 'CAD' | 'AUD';
+
+// Price, volume and size figures converted from USD into a quote currency
+export interface QuotedValues {
+  currency: QuoteCurrency;
+  rate: number; // USD per unit of the quote currency
+  rateUpdatedAt: Date | null; // null for USD
+  price: number;
+  volume: Record<TimeWindow, number>;
+  volume7d?: number | null; // When 7d stats are attached
+  fdv: number;
+  marketCap: number | null;
+  liquidity: number;
+}
+
+// Transaction counts for one window; unique trader counts are null when no
+// source reports them
+export interface WindowTransactions {
+  buys: number;
+  sells: number;
+  buyers: number | null;
+  sellers: number | null;
+}
+
+// Buy-pressure metrics derived from volume and transaction counts
+export interface TradeMetrics {
+  buySellRatio: number | null; // buys / sells, null without sells
+  netBuyVolume: number | null; // volume * (buys - sells) / (buys + sells)
+  avgTradeSize: number | null; // volume / (buys + sells)
+}
+
+// Slow-changing token metadata (logo, decimals, supply), refreshed rarely
+export interface TokenProfile {
+  tokenId: string;
+  name: string;
+  symbol: string;
+  imageUrl: string | null;
+  decimals: number | null;
+  totalSupply: string | null; // Raw integer amount, kept as a string to avoid precision loss
+  normalizedTotalSupply: number | null;
+  coingeckoId: string | null;
+  source: string;
+  updatedAt: Date;
+}
+
+// Two or more sources reporting values further apart than the tolerance
+export interface SourceDisagreement {
+  field: string;
+  spreadPct: number;
+  tolerancePct: number;
+  reported: Record<string, number>;
+}
+
+// Data quality assessment (scores are 0-1, confidence is 0-100)
+export interface DataQuality {
+  confidence: number;
+  flagged: boolean;
+  disagreements: SourceDisagreement[];
+  components: {
+    sources: number;
+    agreement: number;
+    liquidity: number;
+    freshness: number;
+  };
+}
+
+// Where a merged field came from, keyed by field path (e.g. "volume.h24")
+export interface FieldProvenance {
+  strategy: MergeStrategy;
+  sources: string[];
+  reported: Record<string, number>;
+}
+
+// 7-day statistics computed from stored history or upstream daily candles
+export interface SevenDayStats {
+  available: boolean;
+  source: 'snapshots' | 'geckoterminal' | null;
+  volume: number | null;
+  priceChange: number | null;
+  transactions: {
+    buys: number;
+    sells: number;
+  } | null;
+  coverageHours: number;
+  reason?: string;
 }
 
 // DexScreener API response types
@@ -74,10 +177,16 @@ export interface DexScreenerPair {
     m5: number;
   };
   priceChange: {
+    m5: number;
     h1: number;
     h6: number;
     h24: number;
   };
+  liquidity?: {
+    usd: number;
+    base: number;
+    quote: number;
+  };
   fdv: number;
   marketCap: number;
   pairCreatedAt: number;
@@ -154,29 +263,160 @@ export interface GeckoTerminalToken {
       };
       reserve_in_usd: string;
     };
+    relationships?: {
+      base_token?: { data: { id: string; type: string } };
+      quote_token?: { data: { id: string; type: string } };
+      dex?: { data: { id: string; type: string } };
+    };
   }>;
 }
 
+// A DEX pair / pool a token trades in, normalized across sources
+export interface TokenPair {
+  pairAddress: string;
+  dexId: string;
+  sources: string[];
+  tokenIsBase: boolean;
+  quoteToken: {
+    address: string | null;
+    symbol: string | null;
+  };
+  priceUsd: number;
+  liquidityUsd: number;
+  volume: Partial<Record<TimeWindow, number>>;
+  createdAt: Date | null;
+  url: string | null;
+}
+
 // Token metadata from CSV
 export interface TokenMetadata {
   name: string;
   symbol: string;
   tokenAddress: string;
+  // Chain id (see lib/chains.ts); tokens without one are on Solana
+  chain?: string;
+  // Optional pair selection pins (DEX id such as "raydium", or an exact pair address)
+  pinnedDexId?: string;
+  pinnedPairAddress?: string;
+  // Optional per-token anomaly z-score threshold (overrides ANOMALY_Z_THRESHOLD)
+  anomalyZThreshold?: number;
+  // Set for tokens added by the discovery job (registered tokens have none)
+  discovery?: TokenDiscovery;
+}
+
+// Token registry entry - a tracked token plus its admin-managed settings
+export interface RegistryToken extends TokenMetadata {
+  chain: string;
+  tags: string[];
+  enabled: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Fields accepted when creating or updating a registry entry
+// (null clears an optional setting)
+export interface RegistryTokenInput {
+  address?: string;
+  name?: string;
+  symbol?: string;
+  chain?: string;
+  tags?: string[];
+  enabled?: boolean;
+  pinnedDexId?: string | null;
+  pinnedPairAddress?: string | null;
+  anomalyZThreshold?: number | null;
+}
+
+export type RegistryChangeAction = 'added' | 'updated' | 'removed';
+
+// Registry change event (tokens added, updated or removed through the admin API)
+export interface RegistryChangeEvent {
+  action: RegistryChangeAction;
+  tokenId: string;
+  token: RegistryToken;
+  timestamp: Date;
+}
+
+// Saved screener preset: named token list parameters, owned by a user
+export interface Screen {
+  id: string;
+  owner: string;
+  name: string;
+  // Token list query parameters, re-parsed on every run (e.g. { timePeriod: '1h', minVolume: '50000' })
+  filters: Record<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Body of POST /api/screens: filters as an object or as a query string
+export interface ScreenInput {
+  name?: string;
+  filters?: Record<string, string | number>;
+  query?: string;
+}
+
+// A token entering or leaving a screen's results
+export interface ScreenMatchEvent {
+  screenId: string;
+  screenName: string;
+  action: 'enter' | 'exit';
+  tokenId: string;
+  symbol: string;
+  rank: number | null; // 1-based position in the results on enter, null on exit
+  timestamp: Date;
 }
 
+// Time period for filters and sorting
+export type TimePeriod = '5m' | '15m' | '30m' | '1h' | '6h' | '24h' | '7d';
+
 // Filter and sort options
 export interface TokenFilters {
-  timePeriod?: '1h' | '6h' | '24h' | '7d';
-  sortBy?: 'volume' | 'priceChange' | 'marketCap' | 'fdv' | 'transactions' | 'price' | 'liquidity';
+  timePeriod?: TimePeriod;
+  sortBy?:
+    | 'volume' | 'priceChange' | 'marketCap' | 'fdv' | 'transactions' | 'price' | 'liquidity' | 'confidence'
+    | 'buyers' | 'sellers' | 'buySellRatio' | 'netBuyVolume' | 'avgTradeSize'
+    | 'indicator';
+  sortIndicator?: string; // Indicator output key (e.g. "rsi14") when sortBy is 'indicator'
   sortOrder?: 'asc' | 'desc';
   limit?: number;
   cursor?: string;
+  chain?: string;
   minVolume?: number;
   minPriceChange?: number;
   minMarketCap?: number;
   minLiquidity?: number;
+  minConfidence?: number;
+  maxPriceImpact?: number;
+  impactSizeUsd?: number;
+  minBuyers?: number;
+  minSellers?: number;
+  minBuySellRatio?: number;
+  minNetBuyVolume?: number;
+  minAvgTradeSize?: number;
+  minAgeHours?: number;
+  maxAgeHours?: number;
+  indicatorRanges?: Record<string, { min?: number; max?: number }>;
+  indicators?: string[]; // Indicator keys to attach (requested, sorted on or filtered on)
+  indicatorInterval?: CandleTimeframe; // Candle interval for indicators (default 1h)
+  filter?: string; // filter= expression as given
+  filterExpression?: FilterNode; // Parsed filter= expression
 }
 
+// Literal in a filter= expression
+export type FilterValue = string | number | boolean | null;
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+// Parsed filter= expression (see lib/filterExpression.ts). Fields are dot
+// paths into TokenData, e.g. "volume.h1" or "transactions.h24.buys".
+export type FilterNode =
+  | { type: 'and' | 'or'; operands: FilterNode[] }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'compare'; field: string; operator: FilterOperator; value: FilterValue }
+  | { type: 'between'; field: string; min: FilterValue; max: FilterValue }
+  | { type: 'in'; field: string; values: FilterValue[] }
+  | { type: 'contains'; field: string; value: FilterValue };
+
 // Paginated response
 export interface PaginatedTokenResponse {
   data: TokenData[];
@@ -191,11 +431,19 @@ export interface PaginatedTokenResponse {
 
 // WebSocket event types
 export interface WebSocketEvent {
-  type: 'price_update' | 'volume_spike' | 'initial_data' | 'error';
+  type: 'price_update' | 'anomaly' | 'data_quality' | 'arbitrage_opportunity' | 'liquidity_drain' | 'new_pair' | 'token_registry' | 'screen_subscribed' | 'screen_match' | 'initial_data' | 'quote' | 'error';
   data: any;
   timestamp: Date;
 }
 
+// Sub-hour window values carried on price updates
+export interface WindowUpdate {
+  priceChange: number;
+  volume: number;
+  buys: number;
+  sells: number;
+}
+
 // Price update event
 export interface PriceUpdateEvent {
   tokenId: string;
@@ -203,15 +451,220 @@ export interface PriceUpdateEvent {
   priceUsd: number;
   priceChange: number;
   volume: number;
+  m5: WindowUpdate;
+  m15: WindowUpdate;
+  m30: WindowUpdate;
+  quote?: QuotedValues; // For sockets that set a quote currency
   timestamp: Date;
 }
 
-// Volume spike event
-export interface VolumeSpikeEvent {
+// Metric watched by the anomaly detector
+export type AnomalyMetric = 'volume' | 'price' | 'transactions' | 'liquidity';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+// A value that deviates from its rolling baseline by more than the z-score threshold
+export interface AnomalyEvent {
   tokenId: string;
   symbol: string;
+  metric: AnomalyMetric;
+  window: TimeWindow | null; // null for liquidity (change since the previous update)
+  value: number;
+  baseline: number;
+  zScore: number;
+  direction: 'up' | 'down';
+  severity: AnomalySeverity;
+  threshold: number;
+  timestamp: Date;
+}
+
+// Bucket size for historical series ('raw' returns every stored snapshot)
+export type HistoryInterval = 'raw' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+// Historical data point
+export interface HistoryPoint {
+  timestamp: Date;
+  priceUsd: number;
+  volume: number;
+  liquidity: number;
+  marketCap: number | null;
+}
+
+// Candle timeframe
+export type CandleTimeframe = Exclude<HistoryInterval, 'raw'>;
+
+// OHLCV candle
+export interface Candle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
   volume: number;
-  previousVolume: number;
-  percentageIncrease: number;
+}
+
+// GeckoTerminal OHLCV API response
+export interface GeckoTerminalOHLCV {
+  data: {
+    id: string;
+    type: string;
+    attributes: {
+      // [unix seconds, open, high, low, close, volume]
+      ohlcv_list: Array<[number, number, number, number, number, number]>;
+    };
+  };
+}
+
+// GeckoTerminal trending pools API response
+export interface GeckoTerminalTrendingPools {
+  data: GeckoTerminalToken['included'];
+}
+
+// DexScreener token profile / boost listing (latest profiles, latest and top boosts)
+export interface DexScreenerTokenListing {
+  url: string;
+  chainId: string;
+  tokenAddress: string;
+  description?: string;
+  // Boost listings only
+  amount?: number;
+  totalAmount?: number;
+}
+
+// Where a tracked token came from
+export type DiscoverySource = 'registry' | 'dexscreener_profile' | 'dexscreener_boost' | 'geckoterminal_trending';
+
+// Why a token is in the tracked universe
+export interface TokenDiscovery {
+  source: DiscoverySource;
+  reason: string;
+  discoveredAt: Date | null;
+  // Values the admission rules were checked against (discovered tokens only)
+  metrics: {
+    liquidityUsd: number;
+    volumeH24: number;
+    ageHours: number;
+  } | null;
+}
+
+// Data quality event (token confidence dropped below the alert threshold)
+export interface DataQualityEvent {
+  tokenId: string;
+  symbol: string;
+  confidence: number;
+  previousConfidence: number | null;
+  threshold: number;
+  disagreements: SourceDisagreement[];
+  timestamp: Date;
+}
+
+// One side of an arbitrage opportunity
+export interface ArbitrageLeg {
+  dexId: string;
+  pairAddress: string;
+  priceUsd: number;
+  liquidityUsd: number;
+}
+
+// Price spread between two of a token's pairs on different DEXes
+export interface ArbitrageOpportunity {
+  tokenId: string;
+  symbol: string;
+  buy: ArbitrageLeg;
+  sell: ArbitrageLeg;
+  spreadBps: number;
+  feeBps: number;
+  netSpreadBps: number;
+  detectedAt: Date;
+}
+
+// Estimated execution of a trade against constant-product reserves
+export interface TradeEstimate {
+  executionPriceUsd: number;
+  priceImpactPct: number;
+}
+
+// Price impact for one pool: its share of a routed order and the impact of
+// sending the whole order to it alone
+export interface PoolPriceImpact {
+  dexId: string;
+  pairAddress: string;
+  priceUsd: number;
+  liquidityUsd: number;
+  allocationUsd: number;
+  standalone: {
+    buy: TradeEstimate;
+    sell: TradeEstimate;
+  };
+}
+
+// Price impact of a trade routed across a token's top pools
+export interface PriceImpactEstimate {
+  tokenId: string;
+  symbol: string;
+  sizeUsd: number;
+  spotPriceUsd: number | null;
+  liquidityUsd: number;
+  buy: TradeEstimate | null;
+  sell: TradeEstimate | null;
+  pools: PoolPriceImpact[];
+}
+
+// Technical indicators computed over snapshot candles
+export type IndicatorName = 'sma' | 'ema' | 'rsi' | 'vwap' | 'bollinger';
+
+// A requested indicator, e.g. "rsi14" -> { name: 'rsi', period: 14, key: 'rsi14' }
+export interface IndicatorSpec {
+  name: IndicatorName;
+  period: number;
+  key: string;
+}
+
+// Indicator values at one candle, keyed by output name (e.g. "sma20", "bollinger20.upper")
+export interface IndicatorPoint {
+  timestamp: Date;
+  close: number;
+  values: Record<string, number | null>;
+}
+
+// Rug-pull risk signal: a pool's (or the token's total) liquidity falling
+// sharply within the window, or heavy selling into a collapsing price
+export interface LiquidityDrainEvent {
+  tokenId: string;
+  symbol: string;
+  reason: 'pool_liquidity' | 'token_liquidity' | 'sell_pressure';
+  dexId: string | null;
+  pairAddress: string | null;
+  liquidity: {
+    fromUsd: number;
+    toUsd: number;
+    dropPct: number;
+    windowMinutes: number;
+  } | null;
+  sellPressure: {
+    window: TimeWindow;
+    buys: number;
+    sells: number;
+    priceChangePct: number;
+  } | null;
+  timestamp: Date;
+}
+
+// A tracked token gained a pool that was not seen before
+export interface NewPairEvent {
+  tokenId: string;
+  symbol: string;
+  pair: TokenPair;
+  timestamp: Date;
+}
+
+// Entry in the persisted events log
+export type EventLogType = 'liquidity_drain' | 'new_pair';
+
+export interface EventLogEntry {
+  type: EventLogType;
+  tokenId: string;
+  symbol: string;
+  data: unknown;
   timestamp: Date;
 }